@@ -0,0 +1,152 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AbpApiClient, AbpApiClientConfig, AbpRemoteError } from './abp-api-client.js';
+import { AbpCircuitOpenError } from './circuit-breaker.js';
+
+interface ScriptedResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+// Answers each request with the next scripted response, then with 200
+function startStub(requests: string[], script: ScriptedResponse[]): Promise<Server> {
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    req.resume();
+    req.on('end', () => {
+      requests.push(`${req.method} ${req.url}`);
+      const next = script.shift() || { status: 200, body: { id: '1', name: 'admin' } };
+      res.writeHead(next.status, { 'Content-Type': 'application/json', ...next.headers });
+      res.end(JSON.stringify(next.body ?? {}));
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('AbpApiClient retries and circuit breaker', () => {
+  let server: Server;
+  let baseUrl: string;
+  let requests: string[];
+  let script: ScriptedResponse[];
+  let log: jest.SpiedFunction<typeof console.error>;
+
+  beforeAll(async () => {
+    requests = [];
+    script = [];
+    server = await startStub(requests, script);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+    script.length = 0;
+    log = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createClient = (config: Partial<AbpApiClientConfig> = {}) => new AbpApiClient({
+    baseUrl,
+    apiKey: 'key',
+    retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 100 },
+    circuitBreaker: { failureThreshold: 10 },
+    ...config,
+  });
+  const respond = (...responses: ScriptedResponse[]) => script.push(...responses);
+  const retryLogs = () => log.mock.calls.map((call) => String(call[0])).filter((line) => line.startsWith('ABP API Retry'));
+
+  it('retries a GET on 5xx until it succeeds', async () => {
+    respond({ status: 500 }, { status: 503 });
+    const client = createClient();
+
+    await expect(client.getRole('1')).resolves.toMatchObject({ name: 'admin' });
+    expect(requests).toHaveLength(3);
+    expect(client.getDiagnostics().retriedRequests).toBe(2);
+  });
+
+  it('gives up after maxRetries', async () => {
+    respond({ status: 503 }, { status: 503 }, { status: 503 }, { status: 503 });
+    const client = createClient();
+
+    await expect(client.getRole('1')).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(3);
+    expect(retryLogs()).toEqual([expect.stringContaining('Retry 1/2'), expect.stringContaining('Retry 2/2')]);
+  });
+
+  it('does not retry when retries are disabled', async () => {
+    respond({ status: 503 });
+
+    await expect(createClient({ retry: { maxRetries: 0 } }).getRole('1')).rejects.toBeInstanceOf(AbpRemoteError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    respond({ status: 400, body: { error: { message: 'Invalid' } } });
+
+    await expect(createClient().getRole('1')).rejects.toMatchObject({ status: 400, message: 'Invalid' });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not retry non-idempotent requests on 5xx', async () => {
+    respond({ status: 503 });
+
+    await expect(createClient().createRole({ name: 'editor' })).rejects.toMatchObject({ status: 503 });
+    expect(requests).toEqual(['POST /api/identity/roles']);
+  });
+
+  it('retries non-idempotent requests on 429', async () => {
+    respond({ status: 429 });
+
+    await expect(createClient().createRole({ name: 'editor' })).resolves.toBeDefined();
+    expect(requests).toEqual(['POST /api/identity/roles', 'POST /api/identity/roles']);
+  });
+
+  it('waits for the Retry-After delay', async () => {
+    respond({ status: 429, headers: { 'Retry-After': '0.05' } });
+
+    await createClient().getRole('1');
+    expect(retryLogs()).toEqual([expect.stringContaining('in 50ms')]);
+  });
+
+  it('accepts Retry-After as an HTTP date', async () => {
+    respond({ status: 503, headers: { 'Retry-After': new Date(Date.now() - 1000).toUTCString() } });
+
+    await createClient().getRole('1');
+    expect(retryLogs()).toEqual([expect.stringContaining('in 0ms')]);
+  });
+
+  it('does not retry when Retry-After exceeds maxDelayMs', async () => {
+    respond({ status: 429, headers: { 'Retry-After': '120' } });
+
+    await expect(createClient().getRole('1')).rejects.toMatchObject({ status: 429 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('stops retrying once the circuit opens and then fails fast', async () => {
+    respond({ status: 503 }, { status: 503 }, { status: 503 });
+    const client = createClient({ retry: { maxRetries: 5, baseDelayMs: 1 }, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60_000 } });
+
+    await expect(client.getRole('1')).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(2);
+
+    await expect(client.getRole('1')).rejects.toBeInstanceOf(AbpCircuitOpenError);
+    expect(requests).toHaveLength(2);
+    expect(client.getDiagnostics().circuitBreakers).toEqual([expect.objectContaining({ state: 'open', rejectedRequests: 1 })]);
+  });
+
+  it('treats an answering host as healthy even on errors other than 502, 503 and 504', async () => {
+    respond({ status: 503 }, { status: 404 }, { status: 503 });
+    const client = createClient({ retry: { maxRetries: 0 }, circuitBreaker: { failureThreshold: 2 } });
+
+    await expect(client.getRole('1')).rejects.toMatchObject({ status: 503 });
+    await expect(client.getRole('1')).rejects.toMatchObject({ status: 404 });
+    await expect(client.getRole('1')).rejects.toMatchObject({ status: 503 });
+    expect(client.getDiagnostics().circuitBreakers[0]).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+  });
+});
\ No newline at end of file
@@ -1,11 +1,175 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { AbpAuthConfig, AbpTokenProvider } from './abp-auth.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerSnapshot, DEFAULT_CIRCUIT_BREAKER_OPTIONS } from './circuit-breaker.js';
+import { ResponseCache, ResponseCacheStats } from './response-cache.js';
 
 export interface AbpApiClientConfig {
   baseUrl: string;
   apiKey: string;
   timeout?: number;
+  auth?: AbpAuthConfig;
+  defaultTenant?: string;
+  retry?: Partial<AbpRetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  cache?: {
+    enabled?: boolean;
+    ttlSeconds?: Partial<Record<AbpCachedEndpoint, number>>;
+  };
 }
 
+// Read-heavy lookups served from the response cache
+export type AbpCachedEndpoint = 'permissions' | 'cultures' | 'themes' | 'modules' | 'localization' | 'apiDefinition';
+
+export const DEFAULT_CACHE_TTL_SECONDS: Record<AbpCachedEndpoint, number> = {
+  permissions: 60,
+  cultures: 600,
+  themes: 600,
+  modules: 300,
+  localization: 300,
+  apiDefinition: 600,
+};
+
+export interface AbpRetryOptions {
+  // Retries after the first attempt; 0 disables retrying
+  maxRetries: number;
+  // Exponential backoff: baseDelayMs * 2^attempt with jitter, capped at maxDelayMs (also caps Retry-After)
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: AbpRetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+export interface AbpClientDiagnostics {
+  baseUrl: string;
+  retry: AbpRetryOptions;
+  retriedRequests: number;
+  circuitBreakers: CircuitBreakerSnapshot[];
+  cache: ResponseCacheStats & { enabled: boolean; ttlSeconds: Record<AbpCachedEndpoint, number> };
+}
+
+type AbpRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean; _retryCount?: number };
+
+// Tenant context for the current call; `null` means the host side
+interface AbpTenantScope {
+  tenant: string | null | undefined;
+}
+
+// Shared by every API call made for one tool invocation; filled in by the request interceptor
+export interface AbpRequestTrace {
+  correlationId: string;
+  tenant?: string | null;
+}
+
+interface AbpFindTenantResult {
+  success: boolean;
+  tenantId?: string;
+  name?: string;
+  isActive?: boolean;
+}
+
+// ABP's RemoteServiceErrorInfo, returned as { error: ... } by failing API calls
+export interface AbpRemoteServiceErrorInfo {
+  code?: string;
+  message?: string;
+  details?: string;
+  data?: Record<string, any>;
+  validationErrors?: AbpValidationErrorInfo[];
+}
+
+export interface AbpValidationErrorInfo {
+  message: string;
+  members: string[];
+}
+
+export class AbpRemoteError extends Error {
+  readonly status?: number;
+  readonly code?: string;
+  readonly details?: string;
+  readonly data?: Record<string, any>;
+  readonly validationErrors: AbpValidationErrorInfo[];
+  readonly correlationId?: string;
+  readonly method?: string;
+  readonly url?: string;
+
+  constructor(message: string, init: Omit<Partial<AbpRemoteError>, 'message' | 'name'> = {}) {
+    super(message);
+    this.name = 'AbpRemoteError';
+    this.status = init.status;
+    this.code = init.code;
+    this.details = init.details;
+    this.data = init.data;
+    this.validationErrors = init.validationErrors || [];
+    this.correlationId = init.correlationId;
+    this.method = init.method;
+    this.url = init.url;
+  }
+
+  static fromAxiosError(error: AxiosError): AbpRemoteError {
+    const body = error.response?.data as { error?: AbpRemoteServiceErrorInfo } | undefined;
+    const info: AbpRemoteServiceErrorInfo = (body && typeof body === 'object' && body.error) || {};
+    const correlationId = error.response?.headers?.['x-correlation-id'] || error.config?.headers?.['X-Correlation-Id'];
+
+    return new AbpRemoteError(info.message || error.message, {
+      status: error.response?.status,
+      code: info.code || (error.response ? undefined : error.code),
+      details: info.details,
+      data: info.data,
+      validationErrors: (info.validationErrors || []).map((validationError) => ({
+        message: validationError.message,
+        members: validationError.members || [],
+      })),
+      correlationId: correlationId ? String(correlationId) : undefined,
+      method: error.config?.method?.toUpperCase(),
+      url: error.config?.url,
+    });
+  }
+
+  toJSON() {
+    return {
+      message: this.message,
+      status: this.status,
+      code: this.code,
+      details: this.details,
+      validationErrors: this.validationErrors.length > 0 ? this.validationErrors : undefined,
+      correlationId: this.correlationId,
+      request: this.method && this.url ? `${this.method} ${this.url}` : undefined,
+    };
+  }
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options'];
+
+// Responses that mean the host itself is unreachable or restarting; these count towards the circuit breaker
+const HOST_DOWN_STATUSES = [502, 503, 504];
+
+// ABP's PagedAndSortedResultRequestDto / PagedResultDto<T>
+export interface PagedRequest {
+  skipCount?: number;
+  maxResultCount?: number;
+  sorting?: string;
+}
+
+export interface PagedResult<T> {
+  items: T[];
+  totalCount: number;
+}
+
+export interface AllPagesResult<T> extends PagedResult<T> {
+  pages: number;
+  truncated: boolean;
+}
+
+export const MAX_PAGE_SIZE = 1000;
+export const MAX_ALL_PAGES_ITEMS = 10000;
+
 export interface AbpApplication {
   id: string;
   name: string;
@@ -64,6 +228,7 @@ export interface AbpPermission {
   isGrantedByDefault: boolean;
   multiTenancySide: 'Both' | 'Host' | 'Tenant';
   groupName: string;
+  isGranted?: boolean;
 }
 
 export interface AbpUser {
@@ -79,6 +244,67 @@ export interface AbpUser {
   tenantId?: string;
   creationTime: string;
   lastLoginTime?: string;
+  lockoutEnabled?: boolean;
+  // Locked until this time (UTC); null or past means not locked
+  lockoutEnd?: string | null;
+  accessFailedCount?: number;
+  twoFactorEnabled?: boolean;
+  shouldChangePasswordOnNextLogin?: boolean;
+  concurrencyStamp?: string;
+  // Not returned by ABP; added by abp_get_user from the user's roles and organization units
+  roles?: AbpUserRoleSource[];
+}
+
+// A role of a user and where it comes from; ABP lists organization unit roles among the user's roles,
+// so a role also assigned directly is reported with its organization units
+export interface AbpUserRoleSource {
+  id: string;
+  name: string;
+  source: 'direct' | 'organization-unit';
+  // Display names of the units that grant the role
+  organizationUnits: string[];
+}
+
+// IdentityUserUpdateDto: the fields PUT /api/identity/users/{id} accepts
+export interface AbpUserUpdate {
+  userName: string;
+  name?: string;
+  surname?: string;
+  email: string;
+  phoneNumber?: string;
+  isActive: boolean;
+  lockoutEnabled: boolean;
+  // Roles are replaced by this list when it is sent
+  roleNames?: string[];
+  shouldChangePasswordOnNextLogin?: boolean;
+  concurrencyStamp?: string;
+}
+
+export interface AbpUserClaim {
+  claimType: string;
+  claimValue: string;
+}
+
+export interface AbpOrganizationUnit {
+  id: string;
+  parentId?: string | null;
+  // Dotted hierarchy code, e.g. "00001.00002"
+  code: string;
+  displayName: string;
+  roles?: { organizationUnitId: string; roleId: string }[];
+}
+
+export interface AbpRole {
+  id: string;
+  name: string;
+  // Assigned to new users automatically
+  isDefault: boolean;
+  // Seeded by the application; cannot be renamed or deleted
+  isStatic: boolean;
+  // Visible to other users, e.g. in role pickers
+  isPublic: boolean;
+  concurrencyStamp?: string;
+  extraProperties?: Record<string, any>;
 }
 
 export interface AbpTenant {
@@ -92,6 +318,50 @@ export interface AbpTenant {
   subscriptionEndDateUtc?: string;
 }
 
+export interface AbpEdition {
+  id: string;
+  displayName: string;
+  planId?: string;
+  planName?: string;
+  tenantCount?: number;
+  concurrencyStamp?: string;
+}
+
+// Feature management providers: edition, tenant and the defaults from the feature definitions
+export type AbpFeatureProviderName = 'E' | 'T' | 'D';
+
+export interface AbpFeatureValueType {
+  // "ToggleStringValueType", "FreeTextStringValueType" or "SelectionStringValueType"
+  name: string;
+  properties?: Record<string, any>;
+  // "BOOLEAN", "NUMERIC", "STRING" or "NULL", with e.g. MinValue, MaxValue, MaxLength, RegularExpression
+  validator?: {
+    name: string;
+    properties?: Record<string, any>;
+  };
+  itemSource?: {
+    items: { value: string; displayText?: { resourceName?: string; name: string } }[];
+  };
+}
+
+export interface AbpFeature {
+  name: string;
+  displayName: string;
+  // Effective value for the provider; provider tells which level it comes from
+  value: string | null;
+  provider?: { name: string; key?: string | null };
+  description?: string;
+  valueType?: AbpFeatureValueType;
+  depth?: number;
+  parentName?: string | null;
+}
+
+export interface AbpFeatureGroup {
+  name: string;
+  displayName: string;
+  features: AbpFeature[];
+}
+
 export interface AbpAuditLog {
   id: string;
   userId?: string;
@@ -110,6 +380,37 @@ export interface AbpAuditLog {
   exception?: string;
 }
 
+// Login, logout, failed login and lockout events recorded by ABP Identity
+export interface AbpSecurityLog {
+  id: string;
+  tenantId?: string;
+  tenantName?: string;
+  applicationName?: string;
+  // "Identity", "IdentityExternal", "IdentityTwoFactor"
+  identity?: string;
+  // e.g. "LoginSucceeded", "LoginInvalidUserNameOrPassword", "LoginLockedout", "Logout"
+  action?: string;
+  userId?: string;
+  userName?: string;
+  clientId?: string;
+  correlationId?: string;
+  clientIpAddress?: string;
+  browserInfo?: string;
+  creationTime: string;
+  extraProperties?: Record<string, any>;
+}
+
+export interface AbpSecurityLogRequest extends PagedRequest {
+  startTime?: string;
+  endTime?: string;
+  applicationName?: string;
+  identity?: string;
+  action?: string;
+  userName?: string;
+  clientId?: string;
+  correlationId?: string;
+}
+
 export interface AbpBackgroundJob {
   id: string;
   jobType: string;
@@ -176,25 +477,223 @@ export interface AbpCulture {
   displayName: string;
 }
 
+// ABP's ApplicationConfigurationDto from /api/abp/application-configuration
+export interface AbpApplicationConfiguration {
+  localization: AbpApplicationLocalizationConfiguration;
+  auth: {
+    grantedPolicies: Record<string, boolean>;
+  };
+  setting: {
+    values: Record<string, string | null>;
+  };
+  currentUser: AbpCurrentUser;
+  features: {
+    values: Record<string, string | null>;
+  };
+  globalFeatures?: {
+    enabledFeatures: string[];
+  };
+  multiTenancy: {
+    isEnabled: boolean;
+  };
+  currentTenant: {
+    id?: string | null;
+    name?: string | null;
+    isAvailable: boolean;
+  };
+  timing: {
+    timeZone: {
+      iana?: { timeZoneName?: string };
+      windows?: { timeZoneId?: string };
+    };
+  };
+  clock: {
+    kind: string;
+  };
+  objectExtensions?: Record<string, any>;
+  extraProperties?: Record<string, any>;
+}
+
+export interface AbpApplicationLocalizationConfiguration {
+  // Resource name -> key -> localized text
+  values: Record<string, Record<string, string>>;
+  resources?: Record<string, { texts: Record<string, string>; baseResources: string[] }>;
+  languages: AbpLanguageInfo[];
+  currentCulture: {
+    displayName: string;
+    englishName: string;
+    threeLetterIsoLanguageName: string;
+    twoLetterIsoLanguageName: string;
+    isRightToLeft: boolean;
+    cultureName: string;
+    name: string;
+    nativeName: string;
+    dateTimeFormat?: Record<string, any>;
+  };
+  defaultResourceName?: string | null;
+  languagesMap?: Record<string, Array<{ name: string; value: string }>>;
+  languageFilesMap?: Record<string, Array<{ name: string; value: string }>>;
+}
+
+export interface AbpLanguageInfo {
+  cultureName: string;
+  uiCultureName: string;
+  displayName: string;
+  twoLetterISOLanguageName?: string;
+  flagIcon?: string | null;
+}
+
+export interface AbpCurrentUser {
+  isAuthenticated: boolean;
+  id?: string | null;
+  tenantId?: string | null;
+  impersonatorUserId?: string | null;
+  impersonatorTenantId?: string | null;
+  impersonatorUserName?: string | null;
+  impersonatorTenantName?: string | null;
+  userName?: string | null;
+  name?: string | null;
+  surName?: string | null;
+  email?: string | null;
+  emailVerified: boolean;
+  phoneNumber?: string | null;
+  phoneNumberVerified: boolean;
+  roles: string[];
+  sessionId?: string | null;
+}
+
+// ABP's ApplicationApiDescriptionModel from /api/abp/api-definition
+export interface AbpApiDefinition {
+  modules: Record<string, AbpApiModuleDefinition>;
+  types?: Record<string, AbpApiTypeDefinition>;
+}
+
+export interface AbpApiModuleDefinition {
+  rootPath: string;
+  remoteServiceName: string;
+  controllers: Record<string, AbpApiControllerDefinition>;
+}
+
+export interface AbpApiControllerDefinition {
+  controllerName: string;
+  controllerGroupName?: string;
+  isRemoteService?: boolean;
+  isIntegrationService?: boolean;
+  apiVersion?: string | null;
+  type: string;
+  interfaces?: Array<{ type: string; name?: string }>;
+  actions: Record<string, AbpApiActionDefinition>;
+}
+
+export interface AbpApiActionDefinition {
+  uniqueName: string;
+  name: string;
+  httpMethod: string;
+  url: string;
+  supportedVersions?: string[];
+  parametersOnMethod: AbpApiMethodParameterDefinition[];
+  parameters: AbpApiParameterDefinition[];
+  returnValue: { type: string; typeSimple: string };
+  allowAnonymous?: boolean | null;
+  implementFrom?: string;
+}
+
+export interface AbpApiMethodParameterDefinition {
+  name: string;
+  typeAsString?: string;
+  type: string;
+  typeSimple: string;
+  isOptional: boolean;
+  defaultValue?: any;
+}
+
+// How an action parameter is sent: bindingSourceId is Path, Query, Body, Form, Header or ModelBinding
+export interface AbpApiParameterDefinition {
+  nameOnMethod: string;
+  name: string;
+  jsonName?: string | null;
+  type: string;
+  typeSimple: string;
+  isOptional: boolean;
+  defaultValue?: any;
+  constraintTypes?: string[] | null;
+  bindingSourceId?: string | null;
+  descriptorName?: string;
+}
+
+export interface AbpApiTypeDefinition {
+  baseType?: string | null;
+  isEnum: boolean;
+  enumNames?: string[] | null;
+  enumValues?: any[] | null;
+  genericArguments?: string[] | null;
+  properties?: AbpApiPropertyDefinition[] | null;
+}
+
+export interface AbpApiPropertyDefinition {
+  name: string;
+  jsonName?: string | null;
+  type: string;
+  typeSimple: string;
+  isRequired: boolean;
+  minLength?: number | null;
+  maxLength?: number | null;
+  minimum?: string | null;
+  maximum?: string | null;
+  regex?: string | null;
+}
+
 export class AbpApiClient {
   private client: AxiosInstance;
   private config: AbpApiClientConfig;
+  private tokenProvider?: AbpTokenProvider;
+  private tenantScope = new AsyncLocalStorage<AbpTenantScope>();
+  private traceScope = new AsyncLocalStorage<AbpRequestTrace>();
+  private tenantIds = new Map<string, string>();
+  private circuitBreakers = new Map<string, CircuitBreaker>();
+  private retriedRequests = 0;
+  private cache = new ResponseCache();
 
   constructor(config: AbpApiClientConfig) {
     this.config = config;
+    this.tokenProvider = this.createTokenProvider(config);
     this.client = axios.create({
       baseURL: config.baseUrl,
       timeout: config.timeout || 30000,
       headers: {
-        'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
         'Accept': 'application/json',
       },
     });
 
-    // Add request interceptor for debugging
+    // Add request interceptor for authentication and debugging
     this.client.interceptors.request.use(
-      (config) => {
+      async (config) => {
+        const accessToken = this.tokenProvider
+          ? await this.tokenProvider.getAccessToken()
+          : this.config.apiKey;
+        if (accessToken) {
+          config.headers.set('Authorization', `Bearer ${accessToken}`);
+        }
+
+        const tenantId = await this.resolveTenantId(this.currentTenant());
+        if (tenantId) {
+          config.headers.set('__tenant', tenantId);
+        }
+
+        const trace = this.traceScope.getStore();
+        if (trace) {
+          trace.tenant = this.currentTenant() ?? null;
+        }
+
+        // ABP echoes this back and records it in audit logs
+        if (!config.headers.has('X-Correlation-Id')) {
+          config.headers.set('X-Correlation-Id', trace?.correlationId || randomUUID().replace(/-/g, ''));
+        }
+
+        // Last, so a tenant lookup made above can be the trial request of a half-open circuit
+        this.circuitBreaker().check();
+
         console.error(`ABP API Request: ${config.method?.toUpperCase()} ${config.url}`);
         return config;
       },
@@ -206,14 +705,265 @@ export class AbpApiClient {
 
     // Add response interceptor for error handling
     this.client.interceptors.response.use(
-      (response) => response,
-      (error) => {
+      (response) => {
+        this.circuitBreaker().recordSuccess();
+
+        // A successful change to a resource makes its cached lookups stale
+        const method = (response.config.method || 'get').toLowerCase();
+        if (!IDEMPOTENT_METHODS.includes(method) && response.config.url) {
+          this.cache.invalidate(response.config.url);
+        }
+        return response;
+      },
+      async (error) => {
+        if (!axios.isAxiosError(error)) {
+          return Promise.reject(error);
+        }
+
+        const status = error.response?.status;
+        const breaker = this.circuitBreaker();
+        if (!status || HOST_DOWN_STATUSES.includes(status)) {
+          breaker.recordFailure(status ? `HTTP ${status}` : error.code || error.message);
+        } else {
+          breaker.recordSuccess();
+        }
+
+        // Re-authenticate once when the cached token was rejected
+        const request = error.config as AbpRequestConfig | undefined;
+        if (status === 401 && this.tokenProvider && request && !request._authRetried) {
+          request._authRetried = true;
+          this.tokenProvider.invalidate();
+          return this.client.request(request);
+        }
+
+        const delay = request && !breaker.isOpen ? this.retryDelay(error, request) : undefined;
+        if (request && delay !== undefined) {
+          request._retryCount = (request._retryCount || 0) + 1;
+          this.retriedRequests++;
+          console.error(`ABP API Retry ${request._retryCount}/${this.retryOptions().maxRetries} in ${delay}ms: ${request.method?.toUpperCase()} ${request.url} (${status || error.code})`);
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          return this.client.request(request);
+        }
+
         console.error('ABP API Response Error:', error.response?.data || error.message);
-        return Promise.reject(error);
+        return Promise.reject(AbpRemoteError.fromAxiosError(error));
       }
     );
   }
 
+  // Points the client at another ABP environment, e.g. when switching profiles at runtime
+  configure(config: AbpApiClientConfig): void {
+    this.config = config;
+    this.tokenProvider = this.createTokenProvider(config);
+    this.tenantIds.clear();
+    this.cache.clear();
+    this.client.defaults.baseURL = config.baseUrl;
+    this.client.defaults.timeout = config.timeout || 30000;
+  }
+
+  getBaseUrl(): string {
+    return this.config.baseUrl;
+  }
+
+  getDiagnostics(): AbpClientDiagnostics {
+    return {
+      baseUrl: this.config.baseUrl,
+      retry: this.retryOptions(),
+      retriedRequests: this.retriedRequests,
+      circuitBreakers: [...this.circuitBreakers.values()].map((breaker) => breaker.snapshot()),
+      cache: {
+        enabled: this.config.cache?.enabled !== false,
+        ttlSeconds: { ...DEFAULT_CACHE_TTL_SECONDS, ...this.config.cache?.ttlSeconds },
+        ...this.cache.getStats(),
+      },
+    };
+  }
+
+  // Drops cached lookups, all of them or those whose API path starts with the prefix; returns how many were removed
+  clearCache(prefix?: string): number {
+    return this.cache.clear(prefix);
+  }
+
+  // GET through the response cache: fresh entries are served from memory, expired ones are revalidated with If-None-Match
+  private async cachedGet(endpoint: AbpCachedEndpoint, resource: string, url: string, params?: Record<string, any>): Promise<any> {
+    const ttlSeconds = this.config.cache?.ttlSeconds?.[endpoint] ?? DEFAULT_CACHE_TTL_SECONDS[endpoint];
+    if (this.config.cache?.enabled === false || ttlSeconds <= 0) {
+      const response = await this.client.get(url, { params });
+      return response.data;
+    }
+
+    const key = JSON.stringify([this.config.baseUrl, this.currentTenant() ?? null, url, params || {}]);
+    const cached = this.cache.get(key);
+    if (cached && this.cache.isFresh(cached)) {
+      this.cache.recordHit();
+      return structuredClone(cached.data);
+    }
+
+    const response = await this.client.get(url, {
+      params,
+      headers: cached?.etag ? { 'If-None-Match': cached.etag } : undefined,
+      validateStatus: (status) => (status >= 200 && status < 300) || (status === 304 && !!cached),
+    });
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    if (response.status === 304 && cached) {
+      this.cache.recordRevalidated();
+      cached.expiresAt = expiresAt;
+      return structuredClone(cached.data);
+    }
+
+    this.cache.recordMiss();
+    this.cache.set(key, {
+      data: response.data,
+      etag: typeof response.headers.etag === 'string' ? response.headers.etag : undefined,
+      resource,
+      expiresAt,
+    });
+    return structuredClone(response.data);
+  }
+
+  // One breaker per base URL, so switching environments does not inherit another host's state
+  private circuitBreaker(): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(this.config.baseUrl);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.config.baseUrl, { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...this.config.circuitBreaker });
+      this.circuitBreakers.set(this.config.baseUrl, breaker);
+    }
+    return breaker;
+  }
+
+  private retryOptions(): AbpRetryOptions {
+    return { ...DEFAULT_RETRY_OPTIONS, ...this.config.retry };
+  }
+
+  // Idempotent requests are retried on network errors, timeouts, 429 and 5xx; other requests only on 429,
+  // which ABP returns before running the action. Returns undefined when the request should not be retried.
+  private retryDelay(error: AxiosError, request: AbpRequestConfig): number | undefined {
+    const options = this.retryOptions();
+    const attempt = request._retryCount || 0;
+    if (attempt >= options.maxRetries) {
+      return undefined;
+    }
+
+    const status = error.response?.status;
+    const idempotent = IDEMPOTENT_METHODS.includes((request.method || 'get').toLowerCase());
+    const retryable = status === 429 || (idempotent && (!status || status >= 500));
+    if (!retryable || error.code === 'ERR_CANCELED') {
+      return undefined;
+    }
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= options.maxDelayMs ? retryAfter : undefined;
+    }
+
+    // Exponential backoff with jitter between half and the full delay
+    const backoff = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  hasCredentials(): boolean {
+    return !!this.tokenProvider || !!this.config.apiKey;
+  }
+
+  private createTokenProvider(config: AbpApiClientConfig): AbpTokenProvider | undefined {
+    return config.auth
+      ? new AbpTokenProvider({ timeout: config.timeout, ...config.auth })
+      : undefined;
+  }
+
+  // Multi-tenancy: run API calls inside a tenant (name or ID); `null` forces the host side
+  async withTenant<T>(tenant: string | null | undefined, fn: () => Promise<T>): Promise<T> {
+    return this.tenantScope.run({ tenant }, fn);
+  }
+
+  currentTenant(): string | null | undefined {
+    const scope = this.tenantScope.getStore();
+    if (scope?.tenant !== undefined) {
+      return scope.tenant;
+    }
+    return this.config.defaultTenant;
+  }
+
+  // Sends every API call made by fn with the trace's correlation ID and records the tenant they ran in
+  async withTrace<T>(trace: AbpRequestTrace, fn: () => Promise<T>): Promise<T> {
+    return this.traceScope.run(trace, fn);
+  }
+
+  async findTenantByName(name: string): Promise<AbpFindTenantResult> {
+    // Tenant lookup is a host-side call
+    return this.withTenant(null, async () => {
+      const response = await this.client.get(`/api/abp/multi-tenancy/tenants/by-name/${encodeURIComponent(name)}`);
+      return response.data;
+    });
+  }
+
+  // Tenant ID for a tenant name or ID, for host-side APIs that take the tenant as a parameter
+  async getTenantId(tenant: string): Promise<string> {
+    const tenantId = await this.resolveTenantId(tenant);
+    if (!tenantId) {
+      throw new Error('A tenant ID or name is required');
+    }
+    return tenantId;
+  }
+
+  private async resolveTenantId(tenant: string | null | undefined): Promise<string | undefined> {
+    if (!tenant) {
+      return undefined;
+    }
+    if (GUID_PATTERN.test(tenant)) {
+      return tenant;
+    }
+
+    const cached = this.tenantIds.get(tenant.toLowerCase());
+    if (cached) {
+      return cached;
+    }
+
+    const result = await this.findTenantByName(tenant);
+    if (!result.success || !result.tenantId) {
+      throw new Error(`Tenant '${tenant}' was not found`);
+    }
+    if (result.isActive === false) {
+      throw new Error(`Tenant '${tenant}' is not active`);
+    }
+
+    this.tenantIds.set(tenant.toLowerCase(), result.tenantId);
+    return result.tenantId;
+  }
+
+  // Current user, granted policies, features, settings, localization, timing and multi-tenancy of the calling tenant
+  async getApplicationConfiguration(includeLocalizationResources: boolean = false): Promise<AbpApplicationConfiguration> {
+    const response = await this.client.get('/api/abp/application-configuration', {
+      params: { includeLocalizationResources },
+    });
+    return response.data;
+  }
+
+  // Modules, controllers and actions of every remote service; includeTypes adds the DTO and enum definitions
+  async getApiDefinition(includeTypes: boolean = false): Promise<AbpApiDefinition> {
+    return this.cachedGet('apiDefinition', '/api/abp/api-definition', '/api/abp/api-definition', { includeTypes });
+  }
+
+  // Calls any endpoint, e.g. an app-service action found in the API definition; arrays in the query are sent ASP.NET style (ids=1&ids=2)
+  async sendRequest(request: {
+    method: string;
+    url: string;
+    params?: Record<string, any>;
+    data?: any;
+    headers?: Record<string, string>;
+  }): Promise<any> {
+    const response = await this.client.request({
+      method: request.method,
+      url: request.url,
+      params: request.params,
+      data: request.data,
+      headers: request.headers,
+      paramsSerializer: { indexes: null },
+    });
+    return response.data;
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       const response = await this.client.get('/api/app/configuration');
@@ -223,6 +973,53 @@ export class AbpApiClient {
     }
   }
 
+  // Paging helpers
+  // Fetches consecutive pages until totalCount is reached or maxItems is hit
+  async getAllPages<T, R extends object>(
+    fetchPage: (request: R & PagedRequest) => Promise<PagedResult<T>>,
+    request: R & PagedRequest,
+    maxItems: number = MAX_ALL_PAGES_ITEMS
+  ): Promise<AllPagesResult<T>> {
+    const pageSize = Math.min(request.maxResultCount || MAX_PAGE_SIZE, MAX_PAGE_SIZE);
+    const items: T[] = [];
+    let skipCount = request.skipCount || 0;
+    let totalCount = 0;
+    let pages = 0;
+
+    while (items.length < maxItems) {
+      const page = await fetchPage({ ...request, skipCount, maxResultCount: Math.min(pageSize, maxItems - items.length) });
+      pages++;
+      totalCount = page.totalCount;
+      items.push(...page.items);
+      skipCount += page.items.length;
+
+      if (page.items.length === 0 || skipCount >= totalCount) {
+        break;
+      }
+    }
+
+    return {
+      items,
+      totalCount,
+      pages,
+      truncated: (request.skipCount || 0) + items.length < totalCount,
+    };
+  }
+
+  private pagedParams(request: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(request).filter(([, value]) => value !== undefined && value !== null && value !== '')
+    );
+  }
+
+  private toPagedResult<T>(data: any): PagedResult<T> {
+    if (Array.isArray(data)) {
+      return { items: data, totalCount: data.length };
+    }
+    const items: T[] = data?.items || [];
+    return { items, totalCount: data?.totalCount ?? items.length };
+  }
+
   // Application Management
   async getApplications(): Promise<AbpApplication[]> {
     const response = await this.client.get('/api/app/applications');
@@ -250,8 +1047,8 @@ export class AbpApiClient {
 
   // Module Management
   async getModules(): Promise<AbpModule[]> {
-    const response = await this.client.get('/api/app/modules');
-    return response.data.items || response.data;
+    const data = await this.cachedGet('modules', '/api/app/modules', '/api/app/modules');
+    return data.items || data;
   }
 
   async getModule(id: string): Promise<AbpModule> {
@@ -305,8 +1102,8 @@ export class AbpApiClient {
     if (providerName) params.providerName = providerName;
     if (providerKey) params.providerKey = providerKey;
     
-    const response = await this.client.get('/api/app/permissions', { params });
-    return response.data.items || response.data;
+    const data = await this.cachedGet('permissions', '/api/app/permissions', '/api/app/permissions', params);
+    return data.items || data;
   }
 
   async getPermissionsByGroup(groupName: string): Promise<AbpPermission[]> {
@@ -331,13 +1128,9 @@ export class AbpApiClient {
   }
 
   // User Management
-  async getUsers(filter?: string, maxResultCount?: number): Promise<AbpUser[]> {
-    const params: any = {};
-    if (filter) params.filter = filter;
-    if (maxResultCount) params.maxResultCount = maxResultCount;
-    
-    const response = await this.client.get('/api/identity/users', { params });
-    return response.data.items || response.data;
+  async getUsers(request: PagedRequest & { filter?: string; roleId?: string } = {}): Promise<PagedResult<AbpUser>> {
+    const response = await this.client.get('/api/identity/users', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
   }
 
   async getUser(id: string): Promise<AbpUser> {
@@ -350,7 +1143,7 @@ export class AbpApiClient {
     return response.data;
   }
 
-  async updateUser(id: string, user: Partial<AbpUser>): Promise<AbpUser> {
+  async updateUser(id: string, user: Partial<AbpUserUpdate>): Promise<AbpUser> {
     const response = await this.client.put(`/api/identity/users/${id}`, user);
     return response.data;
   }
@@ -359,13 +1152,142 @@ export class AbpApiClient {
     await this.client.delete(`/api/identity/users/${id}`);
   }
 
-  // Tenant Management (for multi-tenant apps)
-  async getTenants(filter?: string): Promise<AbpTenant[]> {
-    const params = filter ? { filter } : {};
-    const response = await this.client.get('/api/saas/tenants', { params });
+  // User account operations (lockout, password, two-factor, claims)
+  async getUserRoles(id: string): Promise<AbpRole[]> {
+    const response = await this.client.get(`/api/identity/users/${id}/roles`);
+    return response.data.items || response.data;
+  }
+
+  async lockUser(id: string, lockoutEnd: string): Promise<void> {
+    await this.client.put(`/api/identity/users/${id}/lock/${encodeURIComponent(lockoutEnd)}`);
+  }
+
+  async unlockUser(id: string): Promise<void> {
+    await this.client.put(`/api/identity/users/${id}/unlock`);
+  }
+
+  async changeUserPassword(id: string, newPassword: string): Promise<void> {
+    await this.client.put(`/api/identity/users/${id}/change-password`, { newPassword });
+  }
+
+  async getUserTwoFactorEnabled(id: string): Promise<boolean> {
+    const response = await this.client.get(`/api/identity/users/${id}/two-factor-enabled`);
+    return response.data;
+  }
+
+  async setUserTwoFactorEnabled(id: string, enabled: boolean): Promise<void> {
+    await this.client.put(`/api/identity/users/${id}/two-factor/${enabled}`);
+  }
+
+  async getUserClaims(id: string): Promise<AbpUserClaim[]> {
+    const response = await this.client.get(`/api/identity/users/${id}/claims`);
+    return response.data.items || response.data;
+  }
+
+  // Replaces every claim of the user
+  async updateUserClaims(id: string, claims: AbpUserClaim[]): Promise<void> {
+    await this.client.put(`/api/identity/users/${id}/claims`, claims);
+  }
+
+  async getUserOrganizationUnits(id: string): Promise<AbpOrganizationUnit[]> {
+    const response = await this.client.get(`/api/identity/users/${id}/organization-units`);
     return response.data.items || response.data;
   }
 
+  // Role Management
+  async getRoles(request: PagedRequest & { filter?: string } = {}): Promise<PagedResult<AbpRole>> {
+    const response = await this.client.get('/api/identity/roles', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
+  async getAllRoles(): Promise<AbpRole[]> {
+    const response = await this.client.get('/api/identity/roles/all');
+    return response.data.items || response.data;
+  }
+
+  async getRole(id: string): Promise<AbpRole> {
+    const response = await this.client.get(`/api/identity/roles/${id}`);
+    return response.data;
+  }
+
+  async createRole(role: Pick<AbpRole, 'name'> & Partial<Pick<AbpRole, 'isDefault' | 'isPublic' | 'extraProperties'>>): Promise<AbpRole> {
+    const response = await this.client.post('/api/identity/roles', role);
+    return response.data;
+  }
+
+  // ABP expects the full role with its concurrency stamp on update
+  async updateRole(id: string, role: Pick<AbpRole, 'name' | 'isDefault' | 'isPublic'> & Partial<Pick<AbpRole, 'concurrencyStamp' | 'extraProperties'>>): Promise<AbpRole> {
+    const response = await this.client.put(`/api/identity/roles/${id}`, role);
+    return response.data;
+  }
+
+  async deleteRole(id: string): Promise<void> {
+    await this.client.delete(`/api/identity/roles/${id}`);
+  }
+
+  // Counted through the roleId filter of the user list
+  async getRoleUserCount(roleId: string): Promise<number> {
+    const { totalCount } = await this.getUsers({ roleId, maxResultCount: 1 });
+    return totalCount;
+  }
+
+  // Organization Units
+  async getAllOrganizationUnits(): Promise<AbpOrganizationUnit[]> {
+    const response = await this.client.get('/api/identity/organization-units/all');
+    return response.data.items || response.data;
+  }
+
+  async getOrganizationUnit(id: string): Promise<AbpOrganizationUnit> {
+    const response = await this.client.get(`/api/identity/organization-units/${id}`);
+    return response.data;
+  }
+
+  async createOrganizationUnit(unit: { displayName: string; parentId?: string | null }): Promise<AbpOrganizationUnit> {
+    const response = await this.client.post('/api/identity/organization-units', unit);
+    return response.data;
+  }
+
+  // A null parent moves the unit to the root; ABP recalculates the codes of the unit and its children
+  async moveOrganizationUnit(id: string, newParentId: string | null): Promise<void> {
+    await this.client.put(`/api/identity/organization-units/${id}/move`, { newParentId });
+  }
+
+  async deleteOrganizationUnit(id: string): Promise<void> {
+    await this.client.delete(`/api/identity/organization-units/${id}`);
+  }
+
+  async getOrganizationUnitMembers(id: string, request: PagedRequest & { filter?: string } = {}): Promise<PagedResult<AbpUser>> {
+    const response = await this.client.get(`/api/identity/organization-units/${id}/members`, { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
+  async addOrganizationUnitMembers(id: string, userIds: string[]): Promise<void> {
+    await this.client.put(`/api/identity/organization-units/${id}/members`, { userIds });
+  }
+
+  async removeOrganizationUnitMember(id: string, userId: string): Promise<void> {
+    await this.client.delete(`/api/identity/organization-units/${id}/members/${userId}`);
+  }
+
+  async getOrganizationUnitRoles(id: string, request: PagedRequest = {}): Promise<PagedResult<AbpRole>> {
+    const response = await this.client.get(`/api/identity/organization-units/${id}/roles`, { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
+  async addOrganizationUnitRoles(id: string, roleIds: string[]): Promise<void> {
+    await this.client.put(`/api/identity/organization-units/${id}/roles`, { roleIds });
+  }
+
+  async removeOrganizationUnitRole(id: string, roleId: string): Promise<void> {
+    await this.client.delete(`/api/identity/organization-units/${id}/roles/${roleId}`);
+  }
+
+  // Tenant Management (for multi-tenant apps)
+  async getTenants(request: PagedRequest & { filter?: string } = {}): Promise<PagedResult<AbpTenant>> {
+    const response = await this.client.get('/api/saas/tenants', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
   async getTenant(id: string): Promise<AbpTenant> {
     const response = await this.client.get(`/api/saas/tenants/${id}`);
     return response.data;
@@ -385,15 +1307,62 @@ export class AbpApiClient {
     await this.client.delete(`/api/saas/tenants/${id}`);
   }
 
+  // Editions and Features
+  async getEditions(request: PagedRequest & { filter?: string } = {}): Promise<PagedResult<AbpEdition>> {
+    const response = await this.client.get('/api/saas/editions', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
+  async getEdition(id: string): Promise<AbpEdition> {
+    const response = await this.client.get(`/api/saas/editions/${id}`);
+    return response.data;
+  }
+
+  // Edition ID for an edition display name or ID
+  async getEditionId(edition: string): Promise<string> {
+    if (!edition) {
+      throw new Error('An edition ID or name is required');
+    }
+    if (GUID_PATTERN.test(edition)) {
+      return edition;
+    }
+
+    const editions = await this.getAllPages((r) => this.getEditions(r), { filter: edition });
+    const match = editions.items.find((candidate) => candidate.displayName.toLowerCase() === edition.toLowerCase());
+    if (!match) {
+      throw new Error(`Edition '${edition}' was not found`);
+    }
+    return match.id;
+  }
+
+  async getFeatures(providerName: AbpFeatureProviderName, providerKey?: string): Promise<AbpFeatureGroup[]> {
+    const response = await this.client.get('/api/feature-management/features', {
+      params: this.pagedParams({ providerName, providerKey }),
+    });
+    return response.data.groups || [];
+  }
+
+  async updateFeatures(providerName: AbpFeatureProviderName, providerKey: string, features: { name: string; value: string | null }[]): Promise<void> {
+    await this.client.put('/api/feature-management/features', { features }, {
+      params: { providerName, providerKey },
+    });
+  }
+
+  // Removes the provider's own values, so the edition or default values apply again
+  async resetFeatures(providerName: AbpFeatureProviderName, providerKey: string): Promise<void> {
+    await this.client.delete('/api/feature-management/features', {
+      params: { providerName, providerKey },
+    });
+  }
+
   // Audit Logs
-  async getAuditLogs(startDate?: string, endDate?: string, userId?: string): Promise<AbpAuditLog[]> {
-    const params: any = {};
-    if (startDate) params.startDate = startDate;
-    if (endDate) params.endDate = endDate;
-    if (userId) params.userId = userId;
-    
-    const response = await this.client.get('/api/audit-logging/audit-logs', { params });
-    return response.data.items || response.data;
+  async getAuditLogs(request: PagedRequest & {
+    startDate?: string;
+    endDate?: string;
+    userId?: string;
+  } = {}): Promise<PagedResult<AbpAuditLog>> {
+    const response = await this.client.get('/api/audit-logging/audit-logs', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
   }
 
   async getAuditLog(id: string): Promise<AbpAuditLog> {
@@ -401,11 +1370,16 @@ export class AbpApiClient {
     return response.data;
   }
 
+  // Security Logs
+  async getSecurityLogs(request: AbpSecurityLogRequest = {}): Promise<PagedResult<AbpSecurityLog>> {
+    const response = await this.client.get('/api/identity/security-logs', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
+  }
+
   // Background Jobs
-  async getBackgroundJobs(jobType?: string): Promise<AbpBackgroundJob[]> {
-    const params = jobType ? { jobType } : {};
-    const response = await this.client.get('/api/background-jobs', { params });
-    return response.data.items || response.data;
+  async getBackgroundJobs(request: PagedRequest & { jobType?: string } = {}): Promise<PagedResult<AbpBackgroundJob>> {
+    const response = await this.client.get('/api/background-jobs', { params: this.pagedParams(request) });
+    return this.toPagedResult(response.data);
   }
 
   async getBackgroundJob(id: string): Promise<AbpBackgroundJob> {
@@ -448,8 +1422,8 @@ export class AbpApiClient {
   }
 
   async getThemes(): Promise<AbpTheme[]> {
-    const response = await this.client.get('/api/themes');
-    return response.data.items || [];
+    const data = await this.cachedGet('themes', '/api/themes', '/api/themes');
+    return data.items || [];
   }
 
   async getTheme(name: string): Promise<AbpTheme> {
@@ -590,8 +1564,8 @@ export class AbpApiClient {
   }
 
   async getLocalizationResources(): Promise<AbpLocalizationResource[]> {
-    const response = await this.client.get('/api/localization/resources');
-    return response.data.items || [];
+    const data = await this.cachedGet('localization', '/api/localization/resources', '/api/localization/resources');
+    return data.items || [];
   }
 
   async getLocalizationResource(name: string, culture?: string): Promise<AbpLocalizationResource> {
@@ -612,7 +1586,20 @@ export class AbpApiClient {
   }
 
   async getSupportedCultures(): Promise<AbpCulture[]> {
-    const response = await this.client.get('/api/localization/cultures');
-    return response.data.items || [];
+    const data = await this.cachedGet('cultures', '/api/localization/cultures', '/api/localization/cultures');
+    return data.items || [];
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date; returns milliseconds
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
   }
-} 
\ No newline at end of file
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
\ No newline at end of file
@@ -0,0 +1,224 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AbpApiClient } from './abp-api-client.js';
+import { AbpTokenProvider } from './abp-auth.js';
+
+interface StubState {
+  tokenRequests: URLSearchParams[];
+  apiAuthorizations: string[];
+  // Access tokens the stub API accepts
+  validTokens: Set<string>;
+  rejectAllTokens: boolean;
+  expiresIn: number;
+  tokenDelayMs: number;
+}
+
+// A local OpenIddict /connect/token endpoint and a protected ABP API endpoint
+function startStub(state: StubState): Promise<Server> {
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const json = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (req.url === '/connect/token' && req.method === 'POST') {
+      const params = new URLSearchParams(Buffer.concat(chunks).toString('utf8'));
+      state.tokenRequests.push(params);
+      if (params.get('grant_type') === 'password' && params.get('password') !== 'secret') {
+        json(400, { error: 'invalid_grant', error_description: 'The username/password couple is invalid.' });
+        return;
+      }
+
+      const accessToken = `token-${state.tokenRequests.length}`;
+      state.validTokens.add(accessToken);
+      await new Promise((resolve) => setTimeout(resolve, state.tokenDelayMs));
+      json(200, { access_token: accessToken, token_type: 'Bearer', expires_in: state.expiresIn });
+      return;
+    }
+
+    if (req.url?.startsWith('/api/identity/users/')) {
+      const authorization = req.headers.authorization || '';
+      state.apiAuthorizations.push(authorization);
+      if (state.rejectAllTokens || !state.validTokens.has(authorization.replace(/^Bearer /, ''))) {
+        json(401, { error: { message: 'Unauthorized' } });
+        return;
+      }
+      json(200, { id: req.url.split('/').pop(), userName: 'admin' });
+      return;
+    }
+
+    json(404, {});
+  });
+
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+describe('AbpTokenProvider', () => {
+  let state: StubState;
+  let server: Server;
+  let authServer: string;
+
+  beforeAll(async () => {
+    state = { tokenRequests: [], apiAuthorizations: [], validTokens: new Set(), rejectAllTokens: false, expiresIn: 3600, tokenDelayMs: 0 };
+    server = await startStub(state);
+    authServer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    state.tokenRequests = [];
+    state.apiAuthorizations = [];
+    state.validTokens.clear();
+    state.expiresIn = 3600;
+    state.tokenDelayMs = 0;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('requests a client_credentials token with the client secret and scope', async () => {
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_Mcp', clientSecret: 'shh', scope: 'MyApp' });
+
+    await expect(provider.getAccessToken()).resolves.toBe('token-1');
+    expect(provider.grantType).toBe('client_credentials');
+    expect(Object.fromEntries(state.tokenRequests[0])).toEqual({
+      grant_type: 'client_credentials',
+      client_id: 'MyApp_Mcp',
+      client_secret: 'shh',
+      scope: 'MyApp',
+    });
+  });
+
+  it('uses the password grant when a username is configured', async () => {
+    const provider = new AbpTokenProvider({ authServer: `${authServer}/`, clientId: 'MyApp_App', username: 'admin', password: 'secret' });
+
+    await expect(provider.getAccessToken()).resolves.toBe('token-1');
+    expect(provider.grantType).toBe('password');
+    expect(state.tokenRequests[0].get('grant_type')).toBe('password');
+    expect(state.tokenRequests[0].get('username')).toBe('admin');
+    expect(state.tokenRequests[0].get('password')).toBe('secret');
+    expect(state.tokenRequests[0].has('client_secret')).toBe(false);
+  });
+
+  it('reports the error description of a rejected token request', async () => {
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_App', username: 'admin', password: 'wrong' });
+
+    await expect(provider.getAccessToken()).rejects.toThrow('failed (400): The username/password couple is invalid.');
+  });
+
+  it('caches the token until shortly before it expires', async () => {
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_Mcp' });
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await expect(provider.getAccessToken()).resolves.toBe('token-1');
+    clock.mockReturnValue(now + 3_539_000);
+    await expect(provider.getAccessToken()).resolves.toBe('token-1');
+    expect(state.tokenRequests).toHaveLength(1);
+
+    // Within the default 60 seconds before expiry a new token is requested
+    clock.mockReturnValue(now + 3_541_000);
+    await expect(provider.getAccessToken()).resolves.toBe('token-2');
+    expect(state.tokenRequests).toHaveLength(2);
+  });
+
+  it('honors a custom refresh skew', async () => {
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_Mcp', refreshSkewSeconds: 600 });
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await provider.getAccessToken();
+    clock.mockReturnValue(now + 3_001_000);
+    await expect(provider.getAccessToken()).resolves.toBe('token-2');
+  });
+
+  it('shares one in-flight token request between concurrent callers', async () => {
+    state.tokenDelayMs = 50;
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_Mcp' });
+
+    const tokens = await Promise.all([provider.getAccessToken(), provider.getAccessToken(), provider.getAccessToken()]);
+
+    expect(tokens).toEqual(['token-1', 'token-1', 'token-1']);
+    expect(state.tokenRequests).toHaveLength(1);
+  });
+
+  it('requests a new token after invalidate', async () => {
+    const provider = new AbpTokenProvider({ authServer, clientId: 'MyApp_Mcp' });
+
+    await provider.getAccessToken();
+    provider.invalidate();
+
+    await expect(provider.getAccessToken()).resolves.toBe('token-2');
+  });
+});
+
+describe('AbpApiClient authentication', () => {
+  let state: StubState;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    state = { tokenRequests: [], apiAuthorizations: [], validTokens: new Set(), rejectAllTokens: false, expiresIn: 3600, tokenDelayMs: 0 };
+    server = await startStub(state);
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    state.tokenRequests = [];
+    state.apiAuthorizations = [];
+    state.validTokens.clear();
+    state.rejectAllTokens = false;
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createClient = () => new AbpApiClient({
+    baseUrl,
+    apiKey: '',
+    auth: { authServer: baseUrl, clientId: 'MyApp_Mcp' },
+    retry: { maxRetries: 0 },
+  });
+
+  it('sends the acquired token as a bearer token', async () => {
+    const client = createClient();
+
+    await expect(client.getUser('42')).resolves.toMatchObject({ id: '42' });
+    expect(state.apiAuthorizations).toEqual(['Bearer token-1']);
+  });
+
+  it('re-authenticates once when the API rejects the cached token', async () => {
+    const client = createClient();
+    await client.getUser('1');
+
+    // The server no longer accepts the cached token, e.g. after a key rotation
+    state.validTokens.clear();
+    await expect(client.getUser('2')).resolves.toMatchObject({ id: '2' });
+
+    expect(state.tokenRequests).toHaveLength(2);
+    expect(state.apiAuthorizations).toEqual(['Bearer token-1', 'Bearer token-1', 'Bearer token-2']);
+  });
+
+  it('does not retry a second 401', async () => {
+    const client = createClient();
+    await client.getUser('1');
+
+    // Every token is rejected, so the retry with a fresh token fails as well
+    state.rejectAllTokens = true;
+    await expect(client.getUser('2')).rejects.toMatchObject({ status: 401 });
+
+    expect(state.tokenRequests).toHaveLength(2);
+    expect(state.apiAuthorizations).toHaveLength(3);
+  });
+});
\ No newline at end of file
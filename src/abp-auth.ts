@@ -0,0 +1,141 @@
+import axios from 'axios';
+
+export type AbpGrantType = 'client_credentials' | 'password';
+
+export interface AbpAuthConfig {
+  authServer: string;
+  clientId: string;
+  clientSecret?: string;
+  scope?: string;
+  grantType?: AbpGrantType;
+  username?: string;
+  password?: string;
+  timeout?: number;
+  // Refresh this many seconds before the token actually expires
+  refreshSkewSeconds?: number;
+}
+
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+  refreshToken?: string;
+}
+
+const DEFAULT_REFRESH_SKEW_SECONDS = 60;
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+
+// Acquires and caches access tokens from an ABP OpenIddict server (/connect/token)
+export class AbpTokenProvider {
+  private config: AbpAuthConfig;
+  private token?: CachedToken;
+  private pending?: Promise<CachedToken>;
+
+  constructor(config: AbpAuthConfig) {
+    this.config = config;
+  }
+
+  get grantType(): AbpGrantType {
+    return this.config.grantType || (this.config.username ? 'password' : 'client_credentials');
+  }
+
+  get tokenEndpoint(): string {
+    const authServer = this.config.authServer.replace(/\/+$/, '');
+    return authServer.endsWith('/connect/token') ? authServer : `${authServer}/connect/token`;
+  }
+
+  async getAccessToken(): Promise<string> {
+    if (this.token && !this.isExpiring(this.token)) {
+      return this.token.accessToken;
+    }
+
+    // Share a single in-flight request between concurrent callers
+    if (!this.pending) {
+      this.pending = this.acquireToken().finally(() => {
+        this.pending = undefined;
+      });
+    }
+
+    this.token = await this.pending;
+    return this.token.accessToken;
+  }
+
+  // Drops the cached access token so the next call re-authenticates (e.g. after a 401)
+  invalidate(): void {
+    if (this.token) {
+      this.token = { ...this.token, accessToken: '', expiresAt: 0 };
+    }
+  }
+
+  private isExpiring(token: CachedToken): boolean {
+    const skew = (this.config.refreshSkewSeconds ?? DEFAULT_REFRESH_SKEW_SECONDS) * 1000;
+    return !token.accessToken || Date.now() >= token.expiresAt - skew;
+  }
+
+  private async acquireToken(): Promise<CachedToken> {
+    if (this.token?.refreshToken) {
+      try {
+        return await this.requestToken({
+          grant_type: 'refresh_token',
+          refresh_token: this.token.refreshToken,
+        });
+      } catch (error) {
+        console.error('ABP token refresh failed, requesting a new token:', error instanceof Error ? error.message : error);
+      }
+    }
+
+    if (this.grantType === 'password') {
+      if (!this.config.username || !this.config.password) {
+        throw new Error('Username and password are required for the password grant');
+      }
+
+      return this.requestToken({
+        grant_type: 'password',
+        username: this.config.username,
+        password: this.config.password,
+      });
+    }
+
+    return this.requestToken({ grant_type: 'client_credentials' });
+  }
+
+  private async requestToken(params: Record<string, string>): Promise<CachedToken> {
+    const body = new URLSearchParams({ ...params, client_id: this.config.clientId });
+    if (this.config.clientSecret) body.set('client_secret', this.config.clientSecret);
+    if (this.config.scope) body.set('scope', this.config.scope);
+
+    try {
+      const response = await axios.post<TokenResponse>(this.tokenEndpoint, body.toString(), {
+        timeout: this.config.timeout || 30000,
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+        },
+      });
+
+      const { access_token, expires_in, refresh_token } = response.data;
+      if (!access_token) {
+        throw new Error('Token endpoint response did not contain an access_token');
+      }
+
+      return {
+        accessToken: access_token,
+        expiresAt: Date.now() + (expires_in ?? DEFAULT_TOKEN_LIFETIME_SECONDS) * 1000,
+        refreshToken: refresh_token,
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        const data = error.response.data || {};
+        throw new Error(`Token request to ${this.tokenEndpoint} failed (${error.response.status}): ${data.error_description || data.error || error.message}`);
+      }
+      throw error;
+    }
+  }
+}
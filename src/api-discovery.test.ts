@@ -0,0 +1,200 @@
+import { describe, expect, it } from '@jest/globals';
+import { AbpApiActionDefinition, AbpApiDefinition, AbpApiParameterDefinition, AbpApiTypeDefinition } from './abp-api-client.js';
+import { buildActionRequest, findApiAction } from './api-discovery.js';
+
+const parameter = (init: Partial<AbpApiParameterDefinition> & Pick<AbpApiParameterDefinition, 'name' | 'typeSimple'>): AbpApiParameterDefinition => ({
+  nameOnMethod: init.name,
+  type: init.typeSimple,
+  isOptional: false,
+  bindingSourceId: 'ModelBinding',
+  descriptorName: '',
+  ...init,
+});
+
+const types: Record<string, AbpApiTypeDefinition> = {
+  'Acme.Orders.OrderStatus': {
+    isEnum: true,
+    enumNames: ['Pending', 'Shipped', 'Cancelled'],
+    enumValues: [0, 1, 2],
+  },
+  'Acme.Orders.UpdateOrderDto': {
+    isEnum: false,
+    baseType: 'Acme.Orders.OrderBaseDto',
+    properties: [
+      { name: 'Status', jsonName: 'status', type: 'Acme.Orders.OrderStatus', typeSimple: 'Acme.Orders.OrderStatus', isRequired: false },
+      { name: 'Tags', jsonName: 'tags', type: '[Acme.Orders.OrderStatus]', typeSimple: '[Acme.Orders.OrderStatus]', isRequired: false },
+    ],
+  },
+  'Acme.Orders.OrderBaseDto': {
+    isEnum: false,
+    properties: [
+      { name: 'Name', jsonName: 'name', type: 'System.String', typeSimple: 'string', isRequired: true },
+      { name: 'Quantity', jsonName: 'quantity', type: 'System.Int32', typeSimple: 'number', isRequired: false },
+    ],
+  },
+};
+
+const getListAction: AbpApiActionDefinition = {
+  uniqueName: 'GetListAsyncByInput',
+  name: 'GetListAsync',
+  httpMethod: 'GET',
+  url: 'api/app/order?api-version=1.0',
+  parametersOnMethod: [{ name: 'input', type: 'Acme.Orders.GetOrdersInput', typeSimple: 'Acme.Orders.GetOrdersInput', isOptional: false }],
+  // ABP flattens query DTOs into one parameter per property
+  parameters: [
+    parameter({ nameOnMethod: 'input', name: 'Filter', typeSimple: 'string', isOptional: true, descriptorName: 'input' }),
+    parameter({ nameOnMethod: 'input', name: 'Status', type: 'Acme.Orders.OrderStatus?', typeSimple: 'Acme.Orders.OrderStatus?', isOptional: true, descriptorName: 'input' }),
+    parameter({ nameOnMethod: 'input', name: 'MaxResultCount', typeSimple: 'number', isOptional: true, descriptorName: 'input' }),
+  ],
+  returnValue: { type: 'Volo.Abp.Application.Dtos.PagedResultDto', typeSimple: 'object' },
+};
+
+const updateAction: AbpApiActionDefinition = {
+  uniqueName: 'UpdateAsyncByIdAndInput',
+  name: 'UpdateAsync',
+  httpMethod: 'PUT',
+  url: 'api/app/order/{id}',
+  parametersOnMethod: [
+    { name: 'id', type: 'System.Guid', typeSimple: 'string', isOptional: false },
+    { name: 'input', type: 'Acme.Orders.UpdateOrderDto', typeSimple: 'Acme.Orders.UpdateOrderDto', isOptional: false },
+    { name: 'source', type: 'System.String', typeSimple: 'string', isOptional: true },
+  ],
+  parameters: [
+    parameter({ name: 'id', typeSimple: 'string', bindingSourceId: 'Path', constraintTypes: [] }),
+    parameter({ name: 'input', type: 'Acme.Orders.UpdateOrderDto', typeSimple: 'Acme.Orders.UpdateOrderDto', bindingSourceId: 'Body' }),
+    parameter({ name: 'X-Request-Source', nameOnMethod: 'source', typeSimple: 'string', isOptional: true, bindingSourceId: 'Header' }),
+  ],
+  returnValue: { type: 'Acme.Orders.OrderDto', typeSimple: 'Acme.Orders.OrderDto' },
+};
+
+const uploadAction: AbpApiActionDefinition = {
+  uniqueName: 'UploadAsyncByFile',
+  name: 'UploadAsync',
+  httpMethod: 'POST',
+  url: 'api/app/order/upload',
+  parametersOnMethod: [{ name: 'file', type: 'Volo.Abp.Content.IRemoteStreamContent', typeSimple: 'Volo.Abp.Content.IRemoteStreamContent', isOptional: false }],
+  parameters: [parameter({ name: 'file', typeSimple: 'Volo.Abp.Content.IRemoteStreamContent', bindingSourceId: 'FormFile' })],
+  returnValue: { type: 'System.Void', typeSimple: 'System.Void' },
+};
+
+describe('buildActionRequest', () => {
+  it('places path, body and header arguments', () => {
+    const request = buildActionRequest(updateAction, {
+      id: 'a b/c',
+      input: { name: 'Order 1', quantity: 3 },
+      source: 'mcp',
+    }, types);
+
+    expect(request).toEqual({
+      method: 'PUT',
+      url: '/api/app/order/a%20b%2Fc',
+      params: {},
+      data: { name: 'Order 1', quantity: 3 },
+      headers: { 'X-Request-Source': 'mcp' },
+    });
+  });
+
+  it('sends flattened query DTO properties as query parameters and keeps the query of the route', () => {
+    const request = buildActionRequest(getListAction, { input: { filter: 'books', maxResultCount: 10 } }, types);
+
+    expect(request).toMatchObject({ method: 'GET', url: '/api/app/order', params: { 'api-version': '1.0', Filter: 'books', MaxResultCount: 10 } });
+    expect(request.data).toBeUndefined();
+  });
+
+  it('accepts flattened query properties at the top level', () => {
+    expect(buildActionRequest(getListAction, { Filter: 'books' }, types).params).toMatchObject({ Filter: 'books' });
+  });
+
+  it('converts enum names to their values, case-insensitively', () => {
+    expect(buildActionRequest(getListAction, { input: { status: 'shipped' } }, types).params.Status).toBe(1);
+    // Values are passed through as they are
+    expect(buildActionRequest(getListAction, { input: { status: 2 } }, types).params.Status).toBe(2);
+  });
+
+  it('converts enum names inside DTOs and arrays without changing the other properties', () => {
+    const input = { Name: 'Order', status: 'Cancelled', tags: ['pending', 1], note: 'kept' };
+
+    expect(buildActionRequest(updateAction, { id: '1', input }, types).data).toEqual({ Name: 'Order', status: 2, tags: [0, 1], note: 'kept' });
+    expect(input.status).toBe('Cancelled');
+  });
+
+  it('rejects unknown enum names and values', () => {
+    expect(() => buildActionRequest(getListAction, { input: { status: 'Lost' } }, types))
+      .toThrow("'input.Status' must be one of Pending, Shipped, Cancelled");
+    expect(() => buildActionRequest(getListAction, { input: { status: 7 } }, types)).toThrow('must be one of');
+  });
+
+  it('rejects missing required path and body arguments', () => {
+    expect(() => buildActionRequest(updateAction, {}, types)).toThrow(
+      "Invalid arguments for UpdateAsyncByIdAndInput:\n- Missing required argument 'id' (string)\n- Missing required argument 'input' (Acme.Orders.UpdateOrderDto)"
+    );
+  });
+
+  it('rejects missing required DTO properties, including those of base types', () => {
+    expect(() => buildActionRequest(updateAction, { id: '1', input: { quantity: 1 } }, types))
+      .toThrow("Missing required property 'input.Name' (string)");
+  });
+
+  it('checks primitive types of arguments and DTO properties', () => {
+    expect(() => buildActionRequest(updateAction, { id: 1, input: { name: 'Order', quantity: '3' } }, types)).toThrow(
+      "- 'id' must be a string\n- 'input.Quantity' must be a number"
+    );
+  });
+
+  it('checks arrays item by item', () => {
+    expect(() => buildActionRequest(updateAction, { id: '1', input: { name: 'Order', tags: 'Pending' } }, types))
+      .toThrow("'input.Tags' must be an array");
+    expect(() => buildActionRequest(updateAction, { id: '1', input: { name: 'Order', tags: ['Pending', 'Lost'] } }, types))
+      .toThrow("'input.Tags[1]' must be one of");
+  });
+
+  it('rejects unknown arguments', () => {
+    expect(() => buildActionRequest(updateAction, { id: '1', input: { name: 'Order' }, force: true }, types))
+      .toThrow("Unknown argument 'force' (expected: id, input, source)");
+  });
+
+  it('leaves out optional arguments that are not given', () => {
+    expect(buildActionRequest(getListAction, {}, types).params).toEqual({ 'api-version': '1.0' });
+  });
+
+  it('refuses form uploads', () => {
+    expect(() => buildActionRequest(uploadAction, { file: 'content' }, types)).toThrow('is sent as a form upload');
+  });
+});
+
+describe('findApiAction', () => {
+  const definition: AbpApiDefinition = {
+    modules: {
+      app: {
+        rootPath: 'app',
+        remoteServiceName: 'Default',
+        controllers: {
+          'Acme.Orders.OrderAppService': {
+            controllerName: 'Order',
+            type: 'Acme.Orders.OrderAppService',
+            actions: {
+              GetListAsyncByInput: getListAction,
+              UpdateAsyncByIdAndInput: updateAction,
+              UpdateAsyncByIdAndNameAndInput: { ...updateAction, uniqueName: 'UpdateAsyncByIdAndNameAndInput' },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  it('finds an action by name or unique name, case-insensitively', () => {
+    expect(findApiAction(definition, 'APP', 'order', 'getlistasync').action).toBe(getListAction);
+    expect(findApiAction(definition, 'app', 'Acme.Orders.OrderAppService', 'UpdateAsyncByIdAndInput').action).toBe(updateAction);
+  });
+
+  it('asks for the unique name of an overloaded action', () => {
+    expect(() => findApiAction(definition, 'app', 'Order', 'UpdateAsync'))
+      .toThrow('use one of: UpdateAsyncByIdAndInput, UpdateAsyncByIdAndNameAndInput');
+  });
+
+  it('lists what is available when nothing matches', () => {
+    expect(() => findApiAction(definition, 'identity', 'Order', 'GetListAsync')).toThrow("Module 'identity' not found (available: app)");
+    expect(() => findApiAction(definition, 'app', 'Invoice', 'GetListAsync')).toThrow('(available: Order)');
+  });
+});
\ No newline at end of file
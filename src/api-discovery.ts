@@ -0,0 +1,448 @@
+import {
+  AbpApiActionDefinition,
+  AbpApiControllerDefinition,
+  AbpApiDefinition,
+  AbpApiPropertyDefinition,
+  AbpApiTypeDefinition,
+} from './abp-api-client.js';
+import { matchesGlob } from './config.js';
+
+export interface BuiltInEndpoint {
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  url: string;
+  // AbpApiClient method that calls it
+  usedBy: string;
+}
+
+// Every REST path AbpApiClient calls; keep in sync when adding client methods
+export const BUILT_IN_ENDPOINTS: BuiltInEndpoint[] = [
+  { method: 'GET', url: '/api/abp/application-configuration', usedBy: 'getApplicationConfiguration' },
+  { method: 'GET', url: '/api/abp/multi-tenancy/tenants/by-name/{name}', usedBy: 'findTenantByName' },
+  { method: 'GET', url: '/api/app/configuration', usedBy: 'testConnection' },
+  { method: 'GET', url: '/api/app/applications', usedBy: 'getApplications' },
+  { method: 'GET', url: '/api/app/applications/{id}', usedBy: 'getApplication' },
+  { method: 'POST', url: '/api/app/applications', usedBy: 'createApplication' },
+  { method: 'PUT', url: '/api/app/applications/{id}', usedBy: 'updateApplication' },
+  { method: 'DELETE', url: '/api/app/applications/{id}', usedBy: 'deleteApplication' },
+  { method: 'GET', url: '/api/app/modules', usedBy: 'getModules' },
+  { method: 'GET', url: '/api/app/modules/{id}', usedBy: 'getModule' },
+  { method: 'POST', url: '/api/app/modules/install', usedBy: 'installModule' },
+  { method: 'DELETE', url: '/api/app/modules/{id}', usedBy: 'uninstallModule' },
+  { method: 'GET', url: '/api/app/entities', usedBy: 'getEntities' },
+  { method: 'GET', url: '/api/app/entities/{id}', usedBy: 'getEntity' },
+  { method: 'POST', url: '/api/app/entities', usedBy: 'createEntity' },
+  { method: 'PUT', url: '/api/app/entities/{id}', usedBy: 'updateEntity' },
+  { method: 'DELETE', url: '/api/app/entities/{id}', usedBy: 'deleteEntity' },
+  { method: 'POST', url: '/api/app/entities/{id}/generate-crud', usedBy: 'generateCrud' },
+  { method: 'GET', url: '/api/app/permissions', usedBy: 'getPermissions' },
+  { method: 'GET', url: '/api/app/permissions/groups/{groupName}', usedBy: 'getPermissionsByGroup' },
+  { method: 'POST', url: '/api/app/permissions/grant', usedBy: 'grantPermission' },
+  { method: 'POST', url: '/api/app/permissions/revoke', usedBy: 'revokePermission' },
+  { method: 'GET', url: '/api/identity/users', usedBy: 'getUsers' },
+  { method: 'GET', url: '/api/identity/users/{id}', usedBy: 'getUser' },
+  { method: 'POST', url: '/api/identity/users', usedBy: 'createUser' },
+  { method: 'PUT', url: '/api/identity/users/{id}', usedBy: 'updateUser' },
+  { method: 'DELETE', url: '/api/identity/users/{id}', usedBy: 'deleteUser' },
+  { method: 'GET', url: '/api/identity/users/{id}/roles', usedBy: 'getUserRoles' },
+  { method: 'PUT', url: '/api/identity/users/{id}/lock/{lockoutEnd}', usedBy: 'lockUser' },
+  { method: 'PUT', url: '/api/identity/users/{id}/unlock', usedBy: 'unlockUser' },
+  { method: 'PUT', url: '/api/identity/users/{id}/change-password', usedBy: 'changeUserPassword' },
+  { method: 'GET', url: '/api/identity/users/{id}/two-factor-enabled', usedBy: 'getUserTwoFactorEnabled' },
+  { method: 'PUT', url: '/api/identity/users/{id}/two-factor/{enabled}', usedBy: 'setUserTwoFactorEnabled' },
+  { method: 'GET', url: '/api/identity/users/{id}/claims', usedBy: 'getUserClaims' },
+  { method: 'PUT', url: '/api/identity/users/{id}/claims', usedBy: 'updateUserClaims' },
+  { method: 'GET', url: '/api/identity/users/{id}/organization-units', usedBy: 'getUserOrganizationUnits' },
+  { method: 'GET', url: '/api/identity/roles', usedBy: 'getRoles' },
+  { method: 'GET', url: '/api/identity/roles/all', usedBy: 'getAllRoles' },
+  { method: 'GET', url: '/api/identity/roles/{id}', usedBy: 'getRole' },
+  { method: 'POST', url: '/api/identity/roles', usedBy: 'createRole' },
+  { method: 'PUT', url: '/api/identity/roles/{id}', usedBy: 'updateRole' },
+  { method: 'DELETE', url: '/api/identity/roles/{id}', usedBy: 'deleteRole' },
+  { method: 'GET', url: '/api/identity/organization-units/all', usedBy: 'getAllOrganizationUnits' },
+  { method: 'GET', url: '/api/identity/organization-units/{id}', usedBy: 'getOrganizationUnit' },
+  { method: 'POST', url: '/api/identity/organization-units', usedBy: 'createOrganizationUnit' },
+  { method: 'PUT', url: '/api/identity/organization-units/{id}/move', usedBy: 'moveOrganizationUnit' },
+  { method: 'DELETE', url: '/api/identity/organization-units/{id}', usedBy: 'deleteOrganizationUnit' },
+  { method: 'GET', url: '/api/identity/organization-units/{id}/members', usedBy: 'getOrganizationUnitMembers' },
+  { method: 'PUT', url: '/api/identity/organization-units/{id}/members', usedBy: 'addOrganizationUnitMembers' },
+  { method: 'DELETE', url: '/api/identity/organization-units/{id}/members/{memberId}', usedBy: 'removeOrganizationUnitMember' },
+  { method: 'GET', url: '/api/identity/organization-units/{id}/roles', usedBy: 'getOrganizationUnitRoles' },
+  { method: 'PUT', url: '/api/identity/organization-units/{id}/roles', usedBy: 'addOrganizationUnitRoles' },
+  { method: 'DELETE', url: '/api/identity/organization-units/{id}/roles/{roleId}', usedBy: 'removeOrganizationUnitRole' },
+  { method: 'GET', url: '/api/saas/tenants', usedBy: 'getTenants' },
+  { method: 'GET', url: '/api/saas/tenants/{id}', usedBy: 'getTenant' },
+  { method: 'POST', url: '/api/saas/tenants', usedBy: 'createTenant' },
+  { method: 'PUT', url: '/api/saas/tenants/{id}', usedBy: 'updateTenant' },
+  { method: 'DELETE', url: '/api/saas/tenants/{id}', usedBy: 'deleteTenant' },
+  { method: 'GET', url: '/api/saas/editions', usedBy: 'getEditions' },
+  { method: 'GET', url: '/api/saas/editions/{id}', usedBy: 'getEdition' },
+  { method: 'GET', url: '/api/feature-management/features', usedBy: 'getFeatures' },
+  { method: 'PUT', url: '/api/feature-management/features', usedBy: 'updateFeatures' },
+  { method: 'DELETE', url: '/api/feature-management/features', usedBy: 'resetFeatures' },
+  { method: 'GET', url: '/api/audit-logging/audit-logs', usedBy: 'getAuditLogs' },
+  { method: 'GET', url: '/api/audit-logging/audit-logs/{id}', usedBy: 'getAuditLog' },
+  { method: 'GET', url: '/api/identity/security-logs', usedBy: 'getSecurityLogs' },
+  { method: 'GET', url: '/api/background-jobs', usedBy: 'getBackgroundJobs' },
+  { method: 'GET', url: '/api/background-jobs/{id}', usedBy: 'getBackgroundJob' },
+  { method: 'POST', url: '/api/background-jobs', usedBy: 'enqueueBackgroundJob' },
+  { method: 'DELETE', url: '/api/background-jobs/{id}', usedBy: 'deleteBackgroundJob' },
+  { method: 'GET', url: '/api/background-jobs/stats', usedBy: 'getBackgroundJobStats' },
+  { method: 'POST', url: '/api/suite/pages', usedBy: 'generatePage' },
+  { method: 'GET', url: '/api/themes', usedBy: 'getThemes' },
+  { method: 'GET', url: '/api/themes/{name}', usedBy: 'getTheme' },
+  { method: 'POST', url: '/api/themes/apply', usedBy: 'applyTheme' },
+  { method: 'POST', url: '/api/suite/components', usedBy: 'generateComponent' },
+  { method: 'GET', url: '/api/ui/layouts', usedBy: 'getLayouts' },
+  { method: 'GET', url: '/api/ui/layouts/{name}', usedBy: 'getLayout' },
+  { method: 'PUT', url: '/api/ui/layouts/{name}', usedBy: 'updateLayout' },
+  { method: 'GET', url: '/api/ui/navigation/menus', usedBy: 'getMenus' },
+  { method: 'GET', url: '/api/ui/navigation/menus/{name}', usedBy: 'getMenu' },
+  { method: 'PUT', url: '/api/ui/navigation/menus/{name}', usedBy: 'updateMenu' },
+  { method: 'POST', url: '/api/ui/navigation/menus/{menuName}/items', usedBy: 'addMenuItem' },
+  { method: 'DELETE', url: '/api/ui/navigation/menus/{menuName}/items/{itemName}', usedBy: 'removeMenuItem' },
+  { method: 'GET', url: '/api/ui/widgets', usedBy: 'getWidgets' },
+  { method: 'GET', url: '/api/ui/widgets/{name}', usedBy: 'getWidget' },
+  { method: 'POST', url: '/api/ui/widgets', usedBy: 'createWidget' },
+  { method: 'PUT', url: '/api/ui/widgets/{name}', usedBy: 'updateWidget' },
+  { method: 'DELETE', url: '/api/ui/widgets/{name}', usedBy: 'deleteWidget' },
+  { method: 'POST', url: '/api/suite/forms', usedBy: 'generateForm' },
+  { method: 'GET', url: '/api/localization/resources', usedBy: 'getLocalizationResources' },
+  { method: 'GET', url: '/api/localization/resources/{name}', usedBy: 'getLocalizationResource' },
+  { method: 'POST', url: '/api/localization/resources/{resourceName}/texts', usedBy: 'updateLocalizationText' },
+  { method: 'GET', url: '/api/localization/cultures', usedBy: 'getSupportedCultures' },
+];
+
+export interface ApiActionMatch {
+  module: string;
+  controller: AbpApiControllerDefinition;
+  action: AbpApiActionDefinition;
+}
+
+// Every action of the definition, optionally narrowed by module, controller and action name globs
+export function listApiActions(
+  definition: AbpApiDefinition,
+  filter: { module?: string; controller?: string; action?: string } = {}
+): ApiActionMatch[] {
+  return Object.entries(definition.modules || {}).flatMap(([module, moduleDefinition]) => {
+    if (filter.module && !matchesGlob(module, filter.module)) {
+      return [];
+    }
+    return Object.values(moduleDefinition.controllers || {}).flatMap((controller) => {
+      if (filter.controller && !matchesGlob(controller.controllerName, filter.controller)) {
+        return [];
+      }
+      return Object.values(controller.actions || {})
+        .filter((action) => !filter.action || matchesGlob(action.name, filter.action) || matchesGlob(action.uniqueName, filter.action))
+        .map((action) => ({ module, controller, action }));
+    });
+  });
+}
+
+// Built-in endpoints with no action of the same verb and route on the target server
+export function findMissingEndpoints(definition: AbpApiDefinition): BuiltInEndpoint[] {
+  const available = new Set(
+    listApiActions(definition).map(({ action }) => routeKey(action.httpMethod, action.url))
+  );
+  return BUILT_IN_ENDPOINTS.filter((endpoint) => !available.has(routeKey(endpoint.method, endpoint.url)));
+}
+
+// Route parameter names differ between ABP ({id}) and the client ({name}), so only their positions are compared
+function routeKey(method: string, url: string): string {
+  const path = url.split('?')[0].replace(/^\/+/, '').replace(/\/+$/, '').replace(/\{[^}]*\}/g, '{}').toLowerCase();
+  return `${method.toUpperCase()} ${path}`;
+}
+
+export interface ActionRequest {
+  method: string;
+  url: string;
+  params: Record<string, any>;
+  data?: any;
+  headers: Record<string, string>;
+}
+
+// Finds one action by module, controller (name or type) and action (name or unique name), case-insensitive
+export function findApiAction(definition: AbpApiDefinition, module: string, controller: string, action: string): ApiActionMatch {
+  const equals = (a: string | undefined, b: string) => !!a && a.toLowerCase() === b.toLowerCase();
+
+  const moduleName = Object.keys(definition.modules || {}).find((name) => equals(name, module));
+  if (!moduleName) {
+    throw new Error(`Module '${module}' not found (available: ${Object.keys(definition.modules || {}).join(', ')})`);
+  }
+
+  const controllers = Object.values(definition.modules[moduleName].controllers || {});
+  const controllerDefinition = controllers.find((candidate) => equals(candidate.controllerName, controller) || equals(candidate.type, controller));
+  if (!controllerDefinition) {
+    throw new Error(`Controller '${controller}' not found in module '${moduleName}' (available: ${controllers.map((candidate) => candidate.controllerName).join(', ')})`);
+  }
+
+  const actions = Object.values(controllerDefinition.actions || {});
+  const byUniqueName = actions.find((candidate) => equals(candidate.uniqueName, action));
+  const byName = actions.filter((candidate) => equals(candidate.name, action));
+  if (!byUniqueName && byName.length > 1) {
+    throw new Error(`Action '${action}' is overloaded in ${controllerDefinition.controllerName}; use one of: ${byName.map((candidate) => candidate.uniqueName).join(', ')}`);
+  }
+
+  const actionDefinition = byUniqueName || byName[0];
+  if (!actionDefinition) {
+    throw new Error(`Action '${action}' not found in ${controllerDefinition.controllerName} (available: ${actions.map((candidate) => candidate.uniqueName).join(', ')})`);
+  }
+
+  return { module: moduleName, controller: controllerDefinition, action: actionDefinition };
+}
+
+// Validates the arguments (keyed by method parameter name, e.g. { id, input }) against the declared parameter types
+// and places them the way ABP binds them: path segments, query string, JSON body or headers
+export function buildActionRequest(
+  action: AbpApiActionDefinition,
+  args: Record<string, any>,
+  types: Record<string, AbpApiTypeDefinition> = {}
+): ActionRequest {
+  const errors: string[] = [];
+  const [route, routeQuery] = action.url.split('?');
+  let url = `/${route.replace(/^\/+/, '')}`;
+  const params: Record<string, any> = Object.fromEntries(new URLSearchParams(routeQuery || ''));
+  const headers: Record<string, string> = {};
+  let data: any;
+
+  const knownArguments = new Set(action.parametersOnMethod.map((parameter) => parameter.name.toLowerCase()));
+  action.parameters.forEach((parameter) => knownArguments.add(parameter.name.toLowerCase()));
+  Object.keys(args).filter((name) => !knownArguments.has(name.toLowerCase())).forEach((name) => {
+    errors.push(`Unknown argument '${name}' (expected: ${action.parametersOnMethod.map((parameter) => parameter.name).join(', ') || 'none'})`);
+  });
+
+  action.parameters.forEach((parameter) => {
+    const flattened = parameter.descriptorName && parameter.descriptorName !== '' && parameter.name !== parameter.nameOnMethod;
+    const value = flattened
+      ? getIgnoreCase(getIgnoreCase(args, parameter.nameOnMethod), parameter.name) ?? getIgnoreCase(args, parameter.name)
+      : getIgnoreCase(args, parameter.nameOnMethod) ?? getIgnoreCase(args, parameter.name);
+    const source = (parameter.bindingSourceId || 'ModelBinding').toLowerCase();
+    const label = flattened ? `${parameter.nameOnMethod}.${parameter.name}` : parameter.nameOnMethod;
+
+    if (value === undefined || value === null) {
+      if (!parameter.isOptional && (source === 'path' || source === 'body')) {
+        errors.push(`Missing required argument '${label}' (${parameter.typeSimple})`);
+      }
+      return;
+    }
+
+    const converted = checkType(value, parameter.type, parameter.typeSimple, types, label, errors);
+    switch (source) {
+      case 'path':
+        url = url.replace(new RegExp(`\\{${escapeRegExp(parameter.name)}(:[^}]*)?\\}`, 'i'), encodeURIComponent(String(converted)));
+        break;
+      case 'body':
+        data = converted;
+        break;
+      case 'header':
+        headers[parameter.name] = String(converted);
+        break;
+      case 'form':
+      case 'formfile':
+        errors.push(`Argument '${label}' is sent as a form upload, which abp_invoke_action does not support`);
+        break;
+      default:
+        params[parameter.name] = converted;
+    }
+  });
+
+  const unresolved = url.match(/\{[^}]+\}/g);
+  if (unresolved && errors.length === 0) {
+    errors.push(`Route parameters without a value: ${unresolved.join(', ')}`);
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid arguments for ${action.uniqueName}:\n- ${errors.join('\n- ')}`);
+  }
+
+  return { method: action.httpMethod.toUpperCase(), url, params, data, headers };
+}
+
+// Checks a value against ABP's typeSimple (string, number, boolean, [T], enums, DTOs); enum names become their values,
+// also inside DTOs and arrays
+function checkType(
+  value: any,
+  type: string,
+  typeSimple: string,
+  types: Record<string, AbpApiTypeDefinition>,
+  label: string,
+  errors: string[]
+): any {
+  const simple = typeSimple.replace(/\?$/, '');
+
+  if (simple.startsWith('[') && simple.endsWith(']')) {
+    if (!Array.isArray(value)) {
+      errors.push(`'${label}' must be an array (${typeSimple})`);
+      return value;
+    }
+    const itemType = simple.slice(1, -1);
+    return value.map((item, index) => checkType(item, itemType, itemType, types, `${label}[${index}]`, errors));
+  }
+
+  const typeDefinition = types[type] || types[simple];
+  if (typeDefinition?.isEnum) {
+    const names = typeDefinition.enumNames || [];
+    const values = typeDefinition.enumValues || [];
+    const index = names.findIndex((name) => typeof value === 'string' && name.toLowerCase() === value.toLowerCase());
+    if (index >= 0) {
+      return values[index] ?? value;
+    }
+    if (!values.includes(value)) {
+      errors.push(`'${label}' must be one of ${names.join(', ')}`);
+    }
+    return value;
+  }
+
+  switch (simple) {
+    case 'string':
+      if (typeof value !== 'string') errors.push(`'${label}' must be a string`);
+      return value;
+    case 'number':
+      if (typeof value !== 'number') errors.push(`'${label}' must be a number`);
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`'${label}' must be a boolean`);
+      return value;
+    case 'object':
+      return value;
+  }
+
+  // DTOs: check required and primitive properties when the type definitions are known
+  if (typeDefinition) {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      errors.push(`'${label}' must be an object (${typeSimple})`);
+      return value;
+    }
+    const converted = { ...value };
+    collectProperties(typeDefinition, types).forEach((property) => {
+      const key = Object.keys(value).find((name) => name.toLowerCase() === (property.jsonName || property.name).toLowerCase());
+      if (key === undefined || value[key] === undefined || value[key] === null) {
+        if (property.isRequired) {
+          errors.push(`Missing required property '${label}.${property.name}' (${property.typeSimple})`);
+        }
+        return;
+      }
+      converted[key] = checkType(value[key], property.type, property.typeSimple, types, `${label}.${property.name}`, errors);
+    });
+    return converted;
+  }
+  return value;
+}
+
+// Properties of the type and its base types
+function collectProperties(typeDefinition: AbpApiTypeDefinition, types: Record<string, AbpApiTypeDefinition>): AbpApiPropertyDefinition[] {
+  const properties = [...(typeDefinition.properties || [])];
+  let baseType = typeDefinition.baseType ? types[typeDefinition.baseType] : undefined;
+  for (let depth = 0; baseType && depth < 10; depth++) {
+    properties.push(...(baseType.properties || []));
+    baseType = baseType.baseType ? types[baseType.baseType] : undefined;
+  }
+  return properties;
+}
+
+function getIgnoreCase(value: any, key: string): any {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return undefined;
+  }
+  if (key in value) {
+    return value[key];
+  }
+  const match = Object.keys(value).find((name) => name.toLowerCase() === key.toLowerCase());
+  return match !== undefined ? value[match] : undefined;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// JSON Schema of an action's arguments in the shape buildActionRequest expects (keyed by method parameter name)
+export function actionInputSchema(action: AbpApiActionDefinition, types: Record<string, AbpApiTypeDefinition> = {}): any {
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  action.parametersOnMethod.forEach((parameter) => {
+    // Query DTOs are flattened by ABP; describe the properties that are actually sent
+    const flattened = action.parameters.filter((candidate) =>
+      candidate.nameOnMethod === parameter.name && candidate.descriptorName && candidate.name !== candidate.nameOnMethod
+    );
+
+    properties[parameter.name] = flattened.length > 0
+      ? {
+        type: 'object',
+        properties: Object.fromEntries(flattened.map((candidate) => [
+          lowerFirst(candidate.name),
+          typeSchema(candidate.type, candidate.typeSimple, types, new Set()),
+        ])),
+      }
+      : typeSchema(parameter.type, parameter.typeSimple, types, new Set());
+
+    if (!parameter.isOptional && flattened.length === 0) {
+      required.push(parameter.name);
+    }
+  });
+
+  return { type: 'object', properties, required };
+}
+
+function typeSchema(type: string, typeSimple: string, types: Record<string, AbpApiTypeDefinition>, visited: Set<string>): any {
+  const simple = typeSimple.replace(/\?$/, '');
+
+  if (simple.startsWith('[') && simple.endsWith(']')) {
+    const itemType = simple.slice(1, -1);
+    const elementType = type.replace(/^\[|\]$/g, '');
+    return { type: 'array', items: typeSchema(elementType, itemType, types, visited) };
+  }
+  if (simple.startsWith('{') && simple.endsWith('}')) {
+    return { type: 'object', additionalProperties: true };
+  }
+
+  switch (simple) {
+    case 'string':
+      if (/System\.Guid/.test(type)) return { type: 'string', format: 'uuid' };
+      if (/System\.DateTime/.test(type)) return { type: 'string', format: 'date-time' };
+      return { type: 'string' };
+    case 'number':
+      return { type: 'number' };
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'object':
+      return { type: 'object' };
+  }
+
+  const typeDefinition = types[type] || types[simple];
+  if (!typeDefinition) {
+    return { description: simple };
+  }
+  if (typeDefinition.isEnum) {
+    return { type: 'string', enum: typeDefinition.enumNames || [], description: simple };
+  }
+
+  // Self-referencing DTOs (trees) are described once
+  if (visited.has(type)) {
+    return { type: 'object', description: simple };
+  }
+  const nested = new Set(visited).add(type);
+  const properties = collectProperties(typeDefinition, types);
+
+  return {
+    type: 'object',
+    description: simple,
+    properties: Object.fromEntries(properties.map((property) => [
+      property.jsonName || lowerFirst(property.name),
+      withConstraints(typeSchema(property.type, property.typeSimple, types, nested), property),
+    ])),
+    required: properties.filter((property) => property.isRequired).map((property) => property.jsonName || lowerFirst(property.name)),
+  };
+}
+
+function withConstraints(schema: any, property: AbpApiPropertyDefinition): any {
+  const constrained = { ...schema };
+  if (property.minLength != null) constrained.minLength = property.minLength;
+  if (property.maxLength != null) constrained.maxLength = property.maxLength;
+  if (property.minimum != null && !isNaN(Number(property.minimum))) constrained.minimum = Number(property.minimum);
+  if (property.maximum != null && !isNaN(Number(property.maximum))) constrained.maximum = Number(property.maximum);
+  if (property.regex) constrained.pattern = property.regex;
+  return constrained;
+}
+
+function lowerFirst(value: string): string {
+  return value.charAt(0).toLowerCase() + value.slice(1);
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AbpCircuitOpenError, CircuitBreaker } from './circuit-breaker.js';
+
+describe('CircuitBreaker', () => {
+  const start = Date.parse('2026-03-02T12:00:00Z');
+  let clock: jest.SpiedFunction<typeof Date.now>;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    clock = jest.spyOn(Date, 'now').mockReturnValue(start);
+    breaker = new CircuitBreaker('https://abp.example.com', { failureThreshold: 3, resetTimeoutMs: 30_000 });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.check();
+      breaker.recordFailure('HTTP 503');
+    }
+  };
+
+  it('stays closed below the failure threshold', () => {
+    fail(2);
+
+    expect(() => breaker.check()).not.toThrow();
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2, totalFailures: 2 });
+  });
+
+  it('counts consecutive failures only', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 2, totalFailures: 4, totalSuccesses: 1 });
+  });
+
+  it('opens at the threshold and rejects requests until the reset timeout', () => {
+    fail(3);
+
+    expect(breaker.isOpen).toBe(true);
+    expect(() => breaker.check()).toThrow(AbpCircuitOpenError);
+    clock.mockReturnValue(start + 29_999);
+    expect(() => breaker.check()).toThrow('next attempt at 2026-03-02T12:00:30.000Z');
+    expect(breaker.snapshot()).toMatchObject({
+      state: 'open',
+      rejectedRequests: 2,
+      openedAt: '2026-03-02T12:00:00.000Z',
+      retryAt: '2026-03-02T12:00:30.000Z',
+      lastFailure: 'HTTP 503',
+    });
+  });
+
+  it('lets one trial request through when half-open', () => {
+    fail(3);
+    clock.mockReturnValue(start + 30_000);
+
+    expect(() => breaker.check()).not.toThrow();
+    expect(breaker.snapshot().state).toBe('half-open');
+    // A second request while the trial is running is rejected
+    expect(() => breaker.check()).toThrow(AbpCircuitOpenError);
+  });
+
+  it('closes after a successful trial request', () => {
+    fail(3);
+    clock.mockReturnValue(start + 30_000);
+    breaker.check();
+    breaker.recordSuccess();
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0, openedAt: undefined });
+    expect(() => breaker.check()).not.toThrow();
+  });
+
+  it('opens again when the trial request fails', () => {
+    fail(3);
+    clock.mockReturnValue(start + 30_000);
+    breaker.check();
+    breaker.recordFailure('ECONNREFUSED');
+
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', retryAt: '2026-03-02T12:01:00.000Z', lastFailure: 'ECONNREFUSED' });
+    expect(() => breaker.check()).toThrow(AbpCircuitOpenError);
+  });
+
+  it('replaces a trial request that never reported back', () => {
+    fail(3);
+    clock.mockReturnValue(start + 30_000);
+    breaker.check();
+
+    clock.mockReturnValue(start + 59_999);
+    expect(() => breaker.check()).toThrow(AbpCircuitOpenError);
+    clock.mockReturnValue(start + 60_000);
+    expect(() => breaker.check()).not.toThrow();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,124 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures (network errors, timeouts, 502/503/504) that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a single trial request is let through
+  resetTimeoutMs: number;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+};
+
+export interface CircuitBreakerSnapshot {
+  baseUrl: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  rejectedRequests: number;
+  openedAt?: string;
+  retryAt?: string;
+  lastFailure?: string;
+  lastFailureAt?: string;
+}
+
+export class AbpCircuitOpenError extends Error {
+  readonly baseUrl: string;
+  readonly retryAt?: Date;
+
+  constructor(baseUrl: string, retryAt?: Date) {
+    const when = retryAt ? `; next attempt at ${retryAt.toISOString()}` : '';
+    super(`ABP host ${baseUrl} is unavailable (circuit breaker open${when})`);
+    this.name = 'AbpCircuitOpenError';
+    this.baseUrl = baseUrl;
+    this.retryAt = retryAt;
+  }
+}
+
+// Fails fast while an ABP host is down instead of letting every call wait for its timeout
+export class CircuitBreaker {
+  readonly baseUrl: string;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private totalFailures = 0;
+  private totalSuccesses = 0;
+  private rejectedRequests = 0;
+  private openedAt?: number;
+  private trialStartedAt?: number;
+  private lastFailure?: string;
+  private lastFailureAt?: number;
+
+  constructor(baseUrl: string, options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS) {
+    this.baseUrl = baseUrl;
+    this.options = options;
+  }
+
+  get isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  // Called before each request; throws AbpCircuitOpenError while the circuit is open
+  check(): void {
+    const now = Date.now();
+    if (this.state === 'open' && now >= this.retryAt()!) {
+      this.state = 'half-open';
+      this.trialStartedAt = undefined;
+    }
+
+    // One trial request at a time; a trial that never reported back is replaced after resetTimeoutMs
+    if (this.state === 'half-open' && (this.trialStartedAt === undefined || now - this.trialStartedAt >= this.options.resetTimeoutMs)) {
+      this.trialStartedAt = now;
+      return;
+    }
+
+    if (this.state !== 'closed') {
+      this.rejectedRequests++;
+      throw new AbpCircuitOpenError(this.baseUrl, this.state === 'open' ? new Date(this.retryAt()!) : undefined);
+    }
+  }
+
+  // The host answered, even if with a 4xx or 500
+  recordSuccess(): void {
+    this.totalSuccesses++;
+    this.consecutiveFailures = 0;
+    this.state = 'closed';
+    this.trialStartedAt = undefined;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(reason: string): void {
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    this.lastFailureAt = Date.now();
+    this.trialStartedAt = undefined;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      baseUrl: this.baseUrl,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalFailures: this.totalFailures,
+      totalSuccesses: this.totalSuccesses,
+      rejectedRequests: this.rejectedRequests,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : undefined,
+      retryAt: this.state === 'open' ? new Date(this.retryAt()!).toISOString() : undefined,
+      lastFailure: this.lastFailure,
+      lastFailureAt: this.lastFailureAt ? new Date(this.lastFailureAt).toISOString() : undefined,
+    };
+  }
+
+  private retryAt(): number | undefined {
+    return this.openedAt !== undefined ? this.openedAt + this.options.resetTimeoutMs : undefined;
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { AbpApiClient } from './abp-api-client.js';
+import { buildClientConfig, EnvironmentManager, LoadedConfigFile } from './config.js';
+
+const configFile: LoadedConfigFile = {
+  path: '/tmp/abp-mcp.config.json',
+  config: {
+    defaultProfile: 'local',
+    profiles: {
+      local: { baseUrl: 'https://localhost:44300', apiKey: 'local-key', defaultTenant: 'acme' },
+      staging: {
+        baseUrl: 'https://staging.example.com',
+        auth: { authServer: 'https://auth.staging.example.com', clientId: 'Staging_Mcp' },
+      },
+    },
+  },
+};
+
+describe('buildClientConfig', () => {
+  it('applies the overrides on top of the profile', () => {
+    const config = buildClientConfig(configFile.config.profiles.local, { baseUrl: 'https://cli.example.com', defaultTenant: 'contoso' });
+
+    expect(config).toMatchObject({ baseUrl: 'https://cli.example.com', apiKey: 'local-key', defaultTenant: 'contoso' });
+  });
+
+  it('falls back to the default base URL without a profile', () => {
+    expect(buildClientConfig(undefined, { apiKey: 'cli-key' })).toEqual({ baseUrl: 'http://localhost:44300', apiKey: 'cli-key' });
+  });
+});
+
+describe('EnvironmentManager.switchTo', () => {
+  const overrides = {
+    baseUrl: 'https://cli.example.com',
+    auth: { authServer: 'https://auth.cli.example.com', clientId: 'Cli_Mcp' },
+  };
+
+  const createManager = () => {
+    const apiClient = new AbpApiClient(buildClientConfig(configFile.config.profiles.local, overrides));
+    const configure = jest.spyOn(apiClient, 'configure');
+    const environments = new EnvironmentManager(configFile, apiClient, 'local', configFile.config.profiles.local, overrides);
+    return { environments, configure };
+  };
+
+  it('keeps the CLI overrides when switching profiles', async () => {
+    const { environments, configure } = createManager();
+
+    await environments.switchTo('staging');
+    await environments.switchTo('local');
+
+    expect(configure.mock.calls.map(([config]) => config.baseUrl)).toEqual(['https://cli.example.com', 'https://cli.example.com']);
+    expect(configure.mock.calls.map(([config]) => config.auth?.clientId)).toEqual(['Cli_Mcp', 'Cli_Mcp']);
+    expect(configure.mock.calls[1][0].defaultTenant).toBe('acme');
+    expect(environments.list().every((environment) => environment.baseUrl === 'https://cli.example.com')).toBe(true);
+  });
+
+  it('waits for the listeners and survives a failing one', async () => {
+    const { environments } = createManager();
+    const calls: string[] = [];
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    environments.onSwitch(async () => {
+      throw new Error('listener failed');
+    });
+    environments.onSwitch(async (profile) => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      calls.push(profile);
+    });
+
+    await expect(environments.switchTo('staging')).resolves.toMatchObject({ name: 'staging', active: true });
+
+    expect(calls).toEqual(['staging']);
+    expect(consoleError).toHaveBeenCalledWith(expect.stringContaining('listener failed'));
+    consoleError.mockRestore();
+  });
+});
\ No newline at end of file
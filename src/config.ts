@@ -0,0 +1,272 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { extname, resolve } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { AbpApiClient, AbpApiClientConfig } from './abp-api-client.js';
+
+export const CONFIG_FILE_NAMES = ['abp-mcp.config.json', 'abp-mcp.config.yaml', 'abp-mcp.config.yml'];
+
+const authSchema = z.object({
+  authServer: z.string(),
+  clientId: z.string(),
+  clientSecret: z.string().optional(),
+  scope: z.string().optional(),
+  grantType: z.enum(['client_credentials', 'password']).optional(),
+  username: z.string().optional(),
+  password: z.string().optional(),
+});
+
+const profileSchema = z.object({
+  description: z.string().optional(),
+  baseUrl: z.string(),
+  apiKey: z.string().optional(),
+  auth: authSchema.optional(),
+  defaultTenant: z.string().optional(),
+  timeout: z.number().int().positive().optional(),
+  retry: z.object({
+    maxRetries: z.number().int().min(0).optional(),
+    baseDelayMs: z.number().int().positive().optional(),
+    maxDelayMs: z.number().int().positive().optional(),
+  }).optional(),
+  circuitBreaker: z.object({
+    failureThreshold: z.number().int().positive().optional(),
+    resetTimeoutMs: z.number().int().positive().optional(),
+  }).optional(),
+  cache: z.object({
+    enabled: z.boolean().optional(),
+    // Seconds per lookup: permissions, cultures, themes, modules, localization, apiDefinition (0 disables caching it)
+    ttlSeconds: z.object({
+      permissions: z.number().int().min(0).optional(),
+      cultures: z.number().int().min(0).optional(),
+      themes: z.number().int().min(0).optional(),
+      modules: z.number().int().min(0).optional(),
+      localization: z.number().int().min(0).optional(),
+      apiDefinition: z.number().int().min(0).optional(),
+    }).optional(),
+  }).optional(),
+  // Glob patterns of tool names to expose, e.g. ["abp_get_*", "abp_list_*"]
+  tools: z.array(z.string()).optional(),
+  // Hide every tool that changes data while this profile is active
+  readOnly: z.boolean().optional(),
+  // Controller globs (e.g. ["Order", "app/Invoice*"]) whose actions are registered as typed tools
+  appServiceTools: z.array(z.string()).optional(),
+});
+
+// Masking of secrets and personal data in tool results (see redaction.ts)
+const redactionSchema = z.object({
+  enabled: z.boolean().optional(),
+  // Field names or dotted paths (globs, e.g. "email", "data.*.userName") that are never redacted
+  allow: z.array(z.string()).optional(),
+  // Field names or dotted paths that are always masked
+  deny: z.array(z.string()).optional(),
+  patterns: z.object({
+    connectionStrings: z.boolean().optional(),
+    jwts: z.boolean().optional(),
+    emails: z.boolean().optional(),
+    phones: z.boolean().optional(),
+  }).optional(),
+});
+
+const configFileSchema = z.object({
+  defaultProfile: z.string().optional(),
+  redaction: redactionSchema.optional(),
+  profiles: z.record(profileSchema).refine(
+    (profiles) => Object.keys(profiles).length > 0,
+    'At least one profile is required'
+  ),
+});
+
+export type AbpProfileConfig = z.infer<typeof profileSchema>;
+export type AbpMcpConfigFile = z.infer<typeof configFileSchema>;
+export type RedactionConfig = z.infer<typeof redactionSchema>;
+
+export interface LoadedConfigFile {
+  path: string;
+  config: AbpMcpConfigFile;
+}
+
+// Looks for abp-mcp.config.{json,yaml,yml} in the given directory
+export function findConfigFile(directory: string = process.cwd()): string | undefined {
+  return CONFIG_FILE_NAMES
+    .map((name) => resolve(directory, name))
+    .find((path) => existsSync(path));
+}
+
+export function loadConfigFile(path: string): LoadedConfigFile {
+  const fullPath = resolve(path);
+  const raw = readFileSync(fullPath, 'utf8');
+  const extension = extname(fullPath).toLowerCase();
+  const parsed = extension === '.yaml' || extension === '.yml' ? parseYaml(raw) : JSON.parse(raw);
+
+  const result = configFileSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    throw new Error(`Invalid config file ${fullPath}:\n  ${issues.join('\n  ')}`);
+  }
+
+  if (result.data.defaultProfile && !result.data.profiles[result.data.defaultProfile]) {
+    throw new Error(`Invalid config file ${fullPath}: defaultProfile '${result.data.defaultProfile}' is not defined`);
+  }
+
+  return { path: fullPath, config: result.data };
+}
+
+// Replaces ${VAR} and ${VAR:-default} with environment variables, so secrets stay out of the file
+export function resolveEnvVariables<T>(value: T, env: NodeJS.ProcessEnv = process.env): T {
+  if (typeof value === 'string') {
+    return value.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (_, name: string, fallback?: string) => {
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return resolved;
+    }) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveEnvVariables(item, env)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveEnvVariables(item, env)])
+    ) as T;
+  }
+  return value;
+}
+
+// Connection settings given on the command line; they take precedence over every profile
+export type ClientConfigOverrides = Partial<Pick<AbpApiClientConfig, 'baseUrl' | 'apiKey' | 'defaultTenant' | 'auth'>>;
+
+export const DEFAULT_BASE_URL = 'http://localhost:44300';
+
+// Profile values first, then the overrides on top of them; used at startup and on every profile switch
+export function buildClientConfig(profile: AbpProfileConfig | undefined, overrides: ClientConfigOverrides = {}): AbpApiClientConfig {
+  const config: AbpApiClientConfig = profile
+    ? {
+      baseUrl: profile.baseUrl,
+      apiKey: profile.apiKey || '',
+      timeout: profile.timeout,
+      auth: profile.auth,
+      defaultTenant: profile.defaultTenant,
+      retry: profile.retry,
+      circuitBreaker: profile.circuitBreaker,
+      cache: profile.cache,
+    }
+    : { baseUrl: DEFAULT_BASE_URL, apiKey: '' };
+
+  if (overrides.baseUrl) config.baseUrl = overrides.baseUrl;
+  if (overrides.apiKey) config.apiKey = overrides.apiKey;
+  if (overrides.defaultTenant) config.defaultTenant = overrides.defaultTenant;
+  if (overrides.auth) config.auth = overrides.auth;
+
+  return config;
+}
+
+export function matchesGlob(value: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(value);
+}
+
+export interface EnvironmentInfo {
+  name: string;
+  description?: string;
+  baseUrl: string;
+  defaultTenant?: string;
+  active: boolean;
+}
+
+// Holds the named profiles of a config file and which one the shared AbpApiClient points at
+export class EnvironmentManager {
+  private configFile: LoadedConfigFile;
+  private apiClient: AbpApiClient;
+  private active: string;
+  private activeProfile: AbpProfileConfig;
+  private overrides: ClientConfigOverrides;
+  private listeners: Array<(profile: string) => Promise<void> | void> = [];
+
+  constructor(
+    configFile: LoadedConfigFile,
+    apiClient: AbpApiClient,
+    profile: string,
+    profileConfig: AbpProfileConfig,
+    overrides: ClientConfigOverrides = {}
+  ) {
+    this.configFile = configFile;
+    this.apiClient = apiClient;
+    this.active = profile;
+    this.activeProfile = profileConfig;
+    this.overrides = overrides;
+  }
+
+  get activeName(): string {
+    return this.active;
+  }
+
+  get configPath(): string {
+    return this.configFile.path;
+  }
+
+  // Returns the profile with environment variables resolved
+  static resolveProfile(configFile: LoadedConfigFile, name?: string): { name: string; profile: AbpProfileConfig } {
+    const profileName = name || configFile.config.defaultProfile || Object.keys(configFile.config.profiles)[0];
+    const profile = configFile.config.profiles[profileName];
+    if (!profile) {
+      const available = Object.keys(configFile.config.profiles).join(', ');
+      throw new Error(`Profile '${profileName}' is not defined in ${configFile.path} (available: ${available})`);
+    }
+
+    try {
+      return { name: profileName, profile: resolveEnvVariables(profile) };
+    } catch (error) {
+      throw new Error(`Profile '${profileName}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  list(): EnvironmentInfo[] {
+    return Object.entries(this.configFile.config.profiles).map(([name, profile]) => ({
+      name,
+      description: profile.description,
+      baseUrl: this.overrides.baseUrl || (name === this.active ? this.activeProfile.baseUrl : profile.baseUrl),
+      defaultTenant: this.overrides.defaultTenant || profile.defaultTenant,
+      active: name === this.active,
+    }));
+  }
+
+  // Resolves once every listener has finished; a failing listener does not undo the switch
+  async switchTo(name: string): Promise<EnvironmentInfo> {
+    const { profile } = EnvironmentManager.resolveProfile(this.configFile, name);
+
+    this.apiClient.configure(buildClientConfig(profile, this.overrides));
+    this.active = name;
+    this.activeProfile = profile;
+    for (const listener of this.listeners) {
+      try {
+        await listener(name);
+      } catch (error) {
+        console.error(`Environment switch listener failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return this.list().find((environment) => environment.active)!;
+  }
+
+  // Tool allow-list of the active profile; undefined means every tool
+  isToolAllowed(toolName: string): boolean {
+    const patterns = this.activeProfile.tools;
+    return !patterns || patterns.some((pattern) => matchesGlob(toolName, pattern));
+  }
+
+  isReadOnly(): boolean {
+    return !!this.activeProfile.readOnly;
+  }
+
+  appServiceToolPatterns(): string[] | undefined {
+    return this.activeProfile.appServiceTools;
+  }
+
+  onSwitch(listener: (profile: string) => Promise<void> | void): void {
+    this.listeners.push(listener);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from '@jest/globals';
+import { AbpFeature, AbpFeatureValueType } from './abp-api-client.js';
+import { describeFeatureValueType, normalizeFeatureValue } from './features.js';
+
+const feature = (valueType: AbpFeatureValueType): AbpFeature => ({
+  name: 'MyApp.Feature',
+  displayName: 'Feature',
+  value: null,
+  valueType,
+});
+
+const toggle = feature({ name: 'ToggleStringValueType', validator: { name: 'BOOLEAN' } });
+const numeric = feature({ name: 'FreeTextStringValueType', validator: { name: 'NUMERIC', properties: { MinValue: 1, MaxValue: 100 } } });
+const selection = feature({
+  name: 'SelectionStringValueType',
+  validator: { name: 'STRING' },
+  itemSource: { items: [{ value: 'Basic' }, { value: 'Premium' }] },
+});
+const text = feature({ name: 'FreeTextStringValueType', validator: { name: 'STRING', properties: { MinLength: 2, MaxLength: 5, RegularExpression: '^[a-z]+$' } } });
+
+describe('normalizeFeatureValue', () => {
+  it('accepts booleans and their string forms for toggles', () => {
+    expect(normalizeFeatureValue(toggle, true)).toBe('true');
+    expect(normalizeFeatureValue(toggle, 'FALSE')).toBe('false');
+  });
+
+  it('rejects anything else for toggles', () => {
+    expect(() => normalizeFeatureValue(toggle, 'yes')).toThrow(`Invalid value "yes" for feature 'MyApp.Feature': expected true or false`);
+    expect(() => normalizeFeatureValue(toggle, 1)).toThrow('expected true or false');
+  });
+
+  it('accepts integers within the bounds of a numeric feature', () => {
+    expect(normalizeFeatureValue(numeric, 1)).toBe('1');
+    expect(normalizeFeatureValue(numeric, ' 100 ')).toBe('100');
+  });
+
+  it('rejects non-integers and values outside the bounds', () => {
+    expect(() => normalizeFeatureValue(numeric, 2.5)).toThrow('expected an integer');
+    expect(() => normalizeFeatureValue(numeric, 'ten')).toThrow('expected an integer');
+    expect(() => normalizeFeatureValue(numeric, 0)).toThrow('must be at least 1');
+    expect(() => normalizeFeatureValue(numeric, '101')).toThrow('must be at most 100');
+  });
+
+  it('allows any integer when a numeric feature has no bounds', () => {
+    const unbounded = feature({ name: 'FreeTextStringValueType', validator: { name: 'NUMERIC', properties: { MinValue: null } } });
+
+    expect(normalizeFeatureValue(unbounded, -5)).toBe('-5');
+  });
+
+  it('accepts only the items of a selection', () => {
+    expect(normalizeFeatureValue(selection, 'Premium')).toBe('Premium');
+    expect(() => normalizeFeatureValue(selection, 'premium')).toThrow('expected one of Basic, Premium');
+  });
+
+  it('checks the length and pattern of text values', () => {
+    expect(normalizeFeatureValue(text, 'abc')).toBe('abc');
+    expect(() => normalizeFeatureValue(text, 'a')).toThrow('must be at least 2 characters');
+    expect(() => normalizeFeatureValue(text, 'abcdef')).toThrow('must be at most 5 characters');
+    expect(() => normalizeFeatureValue(text, 'ABC')).toThrow('must match ^[a-z]+$');
+  });
+
+  it('requires a value unless the validator allows null', () => {
+    expect(() => normalizeFeatureValue(numeric, '')).toThrow('a value is required');
+    expect(() => normalizeFeatureValue(toggle, null)).toThrow('a value is required');
+    expect(normalizeFeatureValue(feature({ name: 'FreeTextStringValueType', validator: { name: 'NULL' } }), undefined)).toBeNull();
+    expect(normalizeFeatureValue(feature({ name: 'FreeTextStringValueType', validator: { name: 'STRING', properties: { AllowNull: true } } }), '')).toBeNull();
+  });
+
+  it('stores other values as text', () => {
+    expect(normalizeFeatureValue(feature({ name: 'FreeTextStringValueType' }), 42)).toBe('42');
+  });
+});
+
+describe('describeFeatureValueType', () => {
+  it('describes the accepted values', () => {
+    expect(describeFeatureValueType(toggle)).toBe('toggle (true/false)');
+    expect(describeFeatureValueType(numeric)).toBe('integer 1-100');
+    expect(describeFeatureValueType(selection)).toBe('one of Basic, Premium');
+    expect(describeFeatureValueType(text)).toBe('text (max 5 characters)');
+  });
+});
\ No newline at end of file
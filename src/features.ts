@@ -0,0 +1,92 @@
+import { AbpFeature, AbpFeatureGroup } from './abp-api-client.js';
+
+export interface FeatureEntry extends AbpFeature {
+  groupName: string;
+}
+
+export function flattenFeatures(groups: AbpFeatureGroup[]): FeatureEntry[] {
+  return groups.flatMap((group) => group.features.map((feature) => ({ ...feature, groupName: group.name })));
+}
+
+// Short description of the accepted values, e.g. "toggle (true/false)" or "number 1-100"
+export function describeFeatureValueType(feature: AbpFeature): string {
+  const valueType = feature.valueType;
+  const validator = valueType?.validator;
+  const properties = validator?.properties || {};
+
+  if (valueType?.name === 'ToggleStringValueType' || validator?.name === 'BOOLEAN') {
+    return 'toggle (true/false)';
+  }
+  if (valueType?.name === 'SelectionStringValueType') {
+    return `one of ${(valueType.itemSource?.items || []).map((item) => item.value).join(', ')}`;
+  }
+  if (validator?.name === 'NUMERIC') {
+    const range = [properties.MinValue, properties.MaxValue].some((bound) => bound !== undefined && bound !== null)
+      ? ` ${properties.MinValue ?? '...'}-${properties.MaxValue ?? '...'}`
+      : '';
+    return `integer${range}`;
+  }
+  if (validator?.name === 'STRING') {
+    return properties.MaxLength ? `text (max ${properties.MaxLength} characters)` : 'text';
+  }
+  return 'text';
+}
+
+// Converts a value to the string ABP stores, after checking it against the feature's value type and validator
+export function normalizeFeatureValue(feature: AbpFeature, value: unknown): string | null {
+  const valueType = feature.valueType;
+  const validator = valueType?.validator;
+  const properties = validator?.properties || {};
+  const invalid = (reason: string) => new Error(`Invalid value ${JSON.stringify(value)} for feature '${feature.name}': ${reason}`);
+
+  if (value === null || value === undefined || value === '') {
+    if (validator?.name === 'NULL' || properties.AllowNull) {
+      return null;
+    }
+    throw invalid('a value is required');
+  }
+
+  if (valueType?.name === 'ToggleStringValueType' || validator?.name === 'BOOLEAN') {
+    const text = String(value).toLowerCase();
+    if (text !== 'true' && text !== 'false') {
+      throw invalid('expected true or false');
+    }
+    return text;
+  }
+
+  if (valueType?.name === 'SelectionStringValueType') {
+    const allowed = (valueType.itemSource?.items || []).map((item) => item.value);
+    if (!allowed.includes(String(value))) {
+      throw invalid(`expected one of ${allowed.join(', ')}`);
+    }
+    return String(value);
+  }
+
+  if (validator?.name === 'NUMERIC') {
+    const number = typeof value === 'number' ? value : Number(String(value).trim());
+    if (!Number.isInteger(number)) {
+      throw invalid('expected an integer');
+    }
+    if (properties.MinValue !== undefined && properties.MinValue !== null && number < Number(properties.MinValue)) {
+      throw invalid(`must be at least ${properties.MinValue}`);
+    }
+    if (properties.MaxValue !== undefined && properties.MaxValue !== null && number > Number(properties.MaxValue)) {
+      throw invalid(`must be at most ${properties.MaxValue}`);
+    }
+    return String(number);
+  }
+
+  const text = String(value);
+  if (validator?.name === 'STRING') {
+    if (properties.MinLength && text.length < Number(properties.MinLength)) {
+      throw invalid(`must be at least ${properties.MinLength} characters`);
+    }
+    if (properties.MaxLength && text.length > Number(properties.MaxLength)) {
+      throw invalid(`must be at most ${properties.MaxLength} characters`);
+    }
+    if (properties.RegularExpression && !new RegExp(properties.RegularExpression).test(text)) {
+      throw invalid(`must match ${properties.RegularExpression}`);
+    }
+  }
+  return text;
+}
\ No newline at end of file
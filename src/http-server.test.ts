@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { request } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpServerHandle, HttpServerOptions, startHttpServer } from './http-server.js';
+
+interface TestResponse {
+  status: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+}
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+// node:http instead of fetch, so Host and Origin can be set freely
+function send(port: number, path: string, init: { method?: string; headers?: Record<string, string>; body?: string } = {}): Promise<TestResponse> {
+  return new Promise((resolve, reject) => {
+    const req = request({ host: '127.0.0.1', port, path, method: init.method || 'GET', headers: init.headers, agent: false }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => resolve({ status: res.statusCode || 0, headers: res.headers, body: Buffer.concat(chunks).toString('utf8') }));
+    });
+    req.on('error', reject);
+    req.end(init.body);
+  });
+}
+
+const initialize = (port: number, headers: Record<string, string> = {}) => send(port, '/mcp', {
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', ...headers },
+  body: JSON.stringify(INITIALIZE),
+});
+
+describe('startHttpServer', () => {
+  let handle: HttpServerHandle | undefined;
+
+  const start = async (options: Partial<HttpServerOptions> = {}) => {
+    handle = await startHttpServer(
+      () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } }),
+      { port: 0, ...options }
+    );
+    return handle.port;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await handle?.close();
+    handle = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('binds to 127.0.0.1 and answers the health check', async () => {
+    const port = await start();
+
+    const response = await send(port, '/health');
+    expect(response.status).toBe(200);
+    expect(JSON.parse(response.body)).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('rejects requests without the bearer token', async () => {
+    const port = await start({ authToken: 'secret-token' });
+
+    expect((await initialize(port)).status).toBe(401);
+    expect((await initialize(port, { Authorization: 'Bearer wrong-token' })).status).toBe(401);
+    expect((await initialize(port, { Authorization: 'Basic secret-token' })).status).toBe(401);
+    expect(JSON.parse((await send(port, '/sse')).body).error.message).toBe('Missing or invalid bearer token');
+  });
+
+  it('opens a session with the bearer token and keeps the health check open', async () => {
+    const port = await start({ authToken: 'secret-token' });
+
+    const response = await initialize(port, { Authorization: 'Bearer secret-token' });
+    expect(response.status).toBe(200);
+    expect(response.headers['mcp-session-id']).toEqual(expect.any(String));
+    expect(response.body).toContain('"serverInfo"');
+    expect(handle?.sessionCount()).toBe(1);
+
+    expect((await send(port, '/health')).status).toBe(200);
+  });
+
+  it('rejects foreign origins and accepts loopback ones', async () => {
+    const port = await start();
+
+    const rejected = await initialize(port, { Origin: 'https://evil.example.com' });
+    expect(rejected.status).toBe(403);
+    expect(JSON.parse(rejected.body).error.message).toBe('Origin not allowed: https://evil.example.com');
+    expect((await initialize(port, { Origin: `http://localhost:${port}` })).status).toBe(200);
+  });
+
+  it('accepts the configured origins only', async () => {
+    const port = await start({ allowedOrigins: ['https://*.example.com'] });
+
+    expect((await initialize(port, { Origin: 'https://app.example.com' })).status).toBe(200);
+    expect((await initialize(port, { Origin: 'http://localhost:3000' })).status).toBe(403);
+  });
+
+  it('rejects Host headers other than loopback names on a loopback bind', async () => {
+    const port = await start();
+
+    const rejected = await send(port, '/health', { headers: { Host: 'attacker.example.com' } });
+    expect(rejected.status).toBe(403);
+    expect(JSON.parse(rejected.body).error.message).toBe('Host not allowed: attacker.example.com');
+    expect((await send(port, '/health', { headers: { Host: `localhost:${port}` } })).status).toBe(200);
+  });
+
+  it('rejects bodies over the size limit, announced or streamed', async () => {
+    const port = await start({ maxBodyBytes: 256 });
+    const body = JSON.stringify({ ...INITIALIZE, padding: 'x'.repeat(1024) });
+
+    const announced = await send(port, '/mcp', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+    expect(announced.status).toBe(413);
+    const streamed = await send(port, '/mcp', { method: 'POST', headers: { 'Content-Type': 'application/json', 'Transfer-Encoding': 'chunked' }, body });
+    expect(streamed.status).toBe(413);
+    expect(JSON.parse(streamed.body).error.message).toBe('Request body exceeds 256 bytes');
+  });
+
+  it('rejects malformed JSON with 400', async () => {
+    const port = await start();
+
+    expect((await send(port, '/mcp', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{' })).status).toBe(400);
+  });
+
+  it('closes streamable sessions after the idle timeout', async () => {
+    const port = await start({ sessionIdleTimeoutMs: 50 });
+
+    const sessionId = (await initialize(port)).headers['mcp-session-id'] as string;
+    expect(handle?.sessionCount()).toBe(1);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    expect(handle?.sessionCount()).toBe(0);
+    const response = await send(port, '/mcp', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream', 'Mcp-Session-Id': sessionId },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(404);
+  });
+
+  it('closes every session and stops listening on close', async () => {
+    const port = await start();
+    await initialize(port);
+    const current = handle;
+
+    await current?.close();
+    handle = undefined;
+
+    expect(current?.sessionCount()).toBe(0);
+    await expect(send(port, '/health')).rejects.toThrow('ECONNREFUSED');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,274 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { matchesGlob } from './config.js';
+
+export interface HttpServerOptions {
+  port: number;
+  host?: string;
+  // Clients must send `Authorization: Bearer <authToken>` when set
+  authToken?: string;
+  // Origin globs browsers may connect from, e.g. "https://app.example.com"; loopback origins when not set
+  allowedOrigins?: string[];
+  // Host header globs; loopback names when bound to a loopback interface, any host otherwise
+  allowedHosts?: string[];
+  maxBodyBytes?: number;
+  // Streamable HTTP sessions without a request for this long are closed
+  sessionIdleTimeoutMs?: number;
+}
+
+export interface HttpServerHandle {
+  port: number;
+  sessionCount: () => number;
+  close: () => Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport | SSEServerTransport;
+  server: Server;
+  lastActivity: number;
+}
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60_000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const LOOPBACK_ORIGINS = LOOPBACK_HOSTS.flatMap((host) => [`http://${host}`, `http://${host}:*`, `https://${host}`, `https://${host}:*`]);
+
+export function isLoopbackHost(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+// Each MCP session gets its own Server instance, since a Server can only be
+// connected to a single transport at a time.
+export async function startHttpServer(
+  createMcpServer: () => Server,
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const host = options.host || DEFAULT_HTTP_HOST;
+  const allowedOrigins = options.allowedOrigins || LOOPBACK_ORIGINS;
+  // Behind a loopback bind only loopback Host headers are expected; others point to DNS rebinding
+  const allowedHosts = options.allowedHosts || (isLoopbackHost(host) ? LOOPBACK_HOSTS.flatMap((name) => [name, `${name}:*`]) : undefined);
+  const maxBodyBytes = options.maxBodyBytes || DEFAULT_MAX_BODY_BYTES;
+  const sessionIdleTimeoutMs = options.sessionIdleTimeoutMs || DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+
+  // Browsers send Origin on cross-site requests; clients without one (CLIs, desktop apps) are not affected
+  const checkRequest = (req: IncomingMessage, pathname: string) => {
+    const origin = req.headers.origin;
+    if (origin && !allowedOrigins.some((pattern) => matchesGlob(origin, pattern))) {
+      throw new HttpError(403, `Origin not allowed: ${origin}`);
+    }
+    const hostHeader = req.headers.host || '';
+    if (allowedHosts && !allowedHosts.some((pattern) => matchesGlob(hostHeader, pattern))) {
+      throw new HttpError(403, `Host not allowed: ${hostHeader}`);
+    }
+    if (options.authToken && pathname !== HEALTH_PATH && !hasBearerToken(req, options.authToken)) {
+      throw new HttpError(401, 'Missing or invalid bearer token');
+    }
+  };
+
+  const closeSession = async (sessionId: string) => {
+    const session = sessions.get(sessionId);
+    if (!session) return;
+    sessions.delete(sessionId);
+    await session.server.close().catch(() => undefined);
+  };
+
+  // Streamable sessions end with a DELETE; clients that disappear without one are closed once idle
+  const expireIdleSessions = () => {
+    const cutoff = Date.now() - sessionIdleTimeoutMs;
+    sessions.forEach((session, sessionId) => {
+      if (session.transport instanceof StreamableHTTPServerTransport && session.lastActivity < cutoff) {
+        closeSession(sessionId);
+      }
+    });
+  };
+  const expiryTimer = setInterval(expireIdleSessions, Math.min(sessionIdleTimeoutMs, 60_000));
+  expiryTimer.unref();
+
+  // Streamable HTTP transport (MCP 2025-03-26): POST, GET and DELETE on a single endpoint
+  const handleStreamableRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const body = req.method === 'POST' ? await readJsonBody(req, maxBodyBytes) : undefined;
+
+    const existing = sessionId ? sessions.get(sessionId) : undefined;
+    if (existing) {
+      if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+        sendJsonRpcError(res, 400, 'Session was created with the SSE transport');
+        return;
+      }
+      existing.lastActivity = Date.now();
+      await existing.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (sessionId || req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, sessionId ? 404 : 400, sessionId ? 'Session not found' : 'No valid session ID provided');
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now() });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  // Legacy HTTP+SSE transport (MCP 2024-11-05): GET opens the stream, POST delivers messages
+  const handleSseConnect = async (res: ServerResponse) => {
+    const server = createMcpServer();
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sessions.set(transport.sessionId, { transport, server, lastActivity: Date.now() });
+    transport.onclose = () => {
+      sessions.delete(transport.sessionId);
+    };
+    res.on('close', () => {
+      closeSession(transport.sessionId);
+    });
+
+    await server.connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const session = sessions.get(sessionId);
+    if (!session || !(session.transport instanceof SSEServerTransport)) {
+      sendJsonRpcError(res, 404, 'Session not found');
+      return;
+    }
+
+    session.lastActivity = Date.now();
+    const body = await readJsonBody(req, maxBodyBytes);
+    await session.transport.handlePostMessage(req, res, body);
+  };
+
+  const httpServer = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    try {
+      checkRequest(req, url.pathname);
+      if (url.pathname === MCP_PATH) {
+        await handleStreamableRequest(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseConnect(res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', sessions: sessions.size }));
+      } else {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: `Not found: ${req.method} ${url.pathname}` }));
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        console.error('HTTP transport error:', error);
+      }
+      if (!res.headersSent) {
+        const status = error instanceof HttpError ? error.status : error instanceof SyntaxError ? 400 : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : String(error));
+      } else {
+        res.end();
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    port,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(expiryTimer);
+      await Promise.all([...sessions.keys()].map(closeSession));
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
+
+// Bodies over maxBytes are rejected with 413; the rest of the upload is drained so the response still reaches the client
+async function readJsonBody(req: IncomingMessage, maxBytes: number): Promise<unknown> {
+  if (Number(req.headers['content-length']) > maxBytes) {
+    req.resume();
+    throw new HttpError(413, `Request body exceeds ${maxBytes} bytes`);
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer | string) => {
+      if (size > maxBytes) return;
+      const buffer = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes`));
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on('end', () => {
+      if (size > maxBytes) return;
+      try {
+        const raw = Buffer.concat(chunks).toString('utf8');
+        resolve(raw ? JSON.parse(raw) : undefined);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+  const given = Buffer.from(match ? match[1].trim() : '');
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  }));
+}
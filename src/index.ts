@@ -4,12 +4,33 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  Prompt,
+  ReadResourceRequestSchema,
+  ResourceTemplate,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { Command } from 'commander';
-import { AbpApiClient } from './abp-api-client.js';
-import { abpTools } from './tools/index.js';
+import { randomUUID } from 'node:crypto';
+import { AbpApiClient, AbpRemoteError, AbpRequestTrace } from './abp-api-client.js';
+import { findMissingEndpoints } from './api-discovery.js';
+import { buildClientConfig, ClientConfigOverrides, DEFAULT_BASE_URL, EnvironmentManager, findConfigFile, loadConfigFile } from './config.js';
+import { DEFAULT_HTTP_HOST, isLoopbackHost, startHttpServer, HttpServerHandle } from './http-server.js';
+import { DEFAULT_JOURNAL_PATH, ToolJournal } from './journal.js';
+import { abpPrompts } from './prompts/index.js';
+import { Redactor } from './redaction.js';
+import { abpResources, resolveResource } from './resources/index.js';
+import { confirmable } from './tools/confirmation.js';
+import { dryRunnable } from './tools/dry-run.js';
+import { environmentTools } from './tools/environment-tools.js';
+import { appServiceTools } from './tools/app-service-tools.js';
+import { abpTools, ToolHandlers } from './tools/index.js';
+import { journalTools } from './tools/journal-tools.js';
+import { tenantScoped } from './tools/tenant-scope.js';
 
 const program = new Command();
 
@@ -18,125 +39,465 @@ program
   .description('ABP.IO MCP Server - Interact with ABP applications and services')
   .version('1.3.0')
   .option('--api-key <key>', 'ABP API key for authentication')
-  .option('--base-url <url>', 'Base URL for ABP API', 'http://localhost:44300')
+  .option('--base-url <url>', `Base URL for ABP API (default: ${DEFAULT_BASE_URL})`)
+  .option('--auth-server <url>', 'OpenIddict server URL used to request access tokens (enables OAuth2)')
+  .option('--client-id <id>', 'OAuth2 client ID')
+  .option('--client-secret <secret>', 'OAuth2 client secret')
+  .option('--scope <scope>', 'OAuth2 scopes to request (space separated)')
+  .option('--username <username>', 'Username for the resource owner password grant')
+  .option('--password <password>', 'Password for the resource owner password grant')
+  .option('--default-tenant <tenant>', 'Tenant name or ID used for API calls that do not pass a tenant')
+  .option('--config <path>', 'Config file with named environment profiles (default: ./abp-mcp.config.json, .yaml or .yml)')
+  .option('--profile <name>', 'Profile from the config file to start with')
   .option('--info-only-mode', 'Enable only informational tools that do not require API authentication')
+  .option('--dry-run', 'Never change data: mutating tools return a before/after diff instead of executing')
+  .option('--journal <path>', `Append a JSONL record of every tool call to this file (default: ${DEFAULT_JOURNAL_PATH})`)
+  .option('--no-journal', 'Do not record tool calls')
+  .option('--no-redaction', 'Return secrets and personal data in tool results unmasked')
+  .option('--app-service-tools <globs>', 'Register a typed tool per action of the matching application-service controllers (comma separated globs, e.g. "Order,Invoice*")')
+  .option('--read-only', 'Expose only tools that do not change data (hides create, update, delete, grant, revoke, enqueue and install tools)')
   .option('--stdio', 'Use stdio transport (for MCP clients)')
+  .option('--http', 'Use HTTP transport (streamable HTTP at /mcp, SSE at /sse)')
+  .option('--port <port>', 'Port for the HTTP transport', '3000')
+  .option('--host <host>', 'Host interface for the HTTP transport (use 0.0.0.0 to accept connections from other machines)', DEFAULT_HTTP_HOST)
+  .option('--http-token <token>', 'Bearer token HTTP clients must send (default: ABP_MCP_HTTP_TOKEN environment variable)')
+  .option('--allowed-origins <origins>', 'Browser origins allowed to call the HTTP transport (comma separated globs; default: localhost origins)')
+  .option('--allowed-hosts <hosts>', 'Host headers accepted by the HTTP transport (comma separated globs; default: localhost names when bound to localhost)')
+  .option('--session-timeout <minutes>', 'Close streamable HTTP sessions idle for this many minutes', '30')
   .parse();
 
 const options = program.opts();
 
+if (options.authServer && !options.clientId) {
+  program.error('--client-id is required when --auth-server is set');
+}
+
+let httpServer: HttpServerHandle | undefined;
+
 async function main() {
+  // Load environment profiles; an explicit --config or --profile requires a config file
+  const configPath = options.config || findConfigFile();
+  if (!configPath && options.profile) {
+    throw new Error(`--profile requires a config file (${options.config || 'abp-mcp.config.json, .yaml or .yml'} not found)`);
+  }
+  const configFile = configPath ? loadConfigFile(configPath) : undefined;
+  const initialProfile = configFile ? EnvironmentManager.resolveProfile(configFile, options.profile) : undefined;
+
   // Initialize API client (even without credentials for tool registration)
-  const apiClient = new AbpApiClient({
-    baseUrl: options.baseUrl || 'http://localhost:44300',
-    apiKey: options.apiKey || '',
+  const overrides = cliOverrides();
+  const apiClient = new AbpApiClient(buildClientConfig(initialProfile?.profile, overrides));
+
+  // CLI flags also apply on top of every profile switched to later
+  const environments = configFile && initialProfile
+    ? new EnvironmentManager(configFile, apiClient, initialProfile.name, initialProfile.profile, overrides)
+    : undefined;
+
+  // Secrets and personal data are masked in tool and resource results unless --no-redaction is given
+  const redactor = new Redactor({
+    ...configFile?.config.redaction,
+    ...(options.redaction === false ? { enabled: false } : {}),
   });
 
-  // Create MCP server
-  const server = new Server(
-    {
-      name: 'abp-io-mcp-server',
-      version: '1.3.0',
-    },
-    {
-      capabilities: {
-        tools: {},
-      },
-    }
-  );
+  // Every tool call is recorded unless --no-journal is given; the file on disk is always redacted
+  const journal = options.journal === false
+    ? undefined
+    : new ToolJournal(options.journal || DEFAULT_JOURNAL_PATH, new Redactor({ ...configFile?.config.redaction, enabled: true }));
 
-  // Initialize tools with API client and filter based on info-only mode
-  const allToolHandlers = abpTools(apiClient);
-  const toolHandlers = options.infoOnlyMode 
-    ? filterInfoOnlyTools(allToolHandlers)
-    : allToolHandlers;
-
-  // Register list tools handler
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return {
-      tools: Object.values(toolHandlers).map((handler): Tool => ({
-        name: handler.name,
-        description: handler.description,
-        inputSchema: handler.inputSchema,
-      })),
-    };
+  // Add the dry-run and confirmation arguments, then filter based on info-only and read-only mode
+  const prepareTools = (handlers: ToolHandlers): ToolHandlers => {
+    const allToolHandlers = dryRunnable(confirmable(apiClient, handlers), { always: options.dryRun });
+    const infoToolHandlers = options.infoOnlyMode
+      ? filterInfoOnlyTools(allToolHandlers)
+      : allToolHandlers;
+    return options.readOnly
+      ? filterReadOnlyTools(infoToolHandlers)
+      : infoToolHandlers;
+  };
+
+  // Initialize tools with API client
+  const modeToolHandlers = prepareTools({
+    ...abpTools(apiClient),
+    ...(environments ? environmentTools(environments) : {}),
+    ...(journal ? journalTools(journal) : {}),
   });
 
-  // Register call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
-    
-    const handler = toolHandlers[name];
-    if (!handler) {
-      throw new Error(`Unknown tool: ${name}`);
+  // Typed tools generated from the API definition for the opted-in app-service controllers (--app-service-tools or profile)
+  let appServiceToolHandlers: ToolHandlers = {};
+  const loadAppServiceTools = async () => {
+    const patterns = splitList(options.appServiceTools) || environments?.appServiceToolPatterns();
+    appServiceToolHandlers = {};
+    if (!patterns || patterns.length === 0 || options.infoOnlyMode || !apiClient.hasCredentials()) {
+      return;
+    }
+
+    try {
+      const generated = await appServiceTools(apiClient, patterns);
+      const clashes = Object.keys(generated).filter((name) => modeToolHandlers[name]);
+      clashes.forEach((name) => {
+        console.error(`Skipping app service tool ${name}: a built-in tool has the same name`);
+        delete generated[name];
+      });
+      appServiceToolHandlers = prepareTools(tenantScoped(apiClient, generated));
+      console.error(`Registered ${Object.keys(appServiceToolHandlers).length} app service tools for ${patterns.join(', ')}`);
+    } catch (error) {
+      console.error(`⚠ Could not generate app service tools: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  // Apply the tool allow-list and read-only flag of the active profile (environment tools stay available for switching back)
+  const activeToolHandlers = (): ToolHandlers => {
+    const handlers = { ...modeToolHandlers, ...appServiceToolHandlers };
+    if (!environments) {
+      return handlers;
+    }
+    return Object.fromEntries(
+      Object.entries(handlers).filter(([name, handler]) =>
+        name === 'abp_switch_environment' || name === 'abp_get_environments' ||
+        (environments.isToolAllowed(name) && (handler.annotations.readOnlyHint || !environments.isReadOnly()))
+      )
+    );
+  };
+
+  // Tell every connected client that the tool list changed after a profile switch
+  const servers = new Set<Server>();
+  const notifyToolListChanged = () => {
+    servers.forEach((server) => {
+      server.sendToolListChanged().catch(() => undefined);
+    });
+  };
+  environments?.onSwitch(async (profile) => {
+    console.error(`Switched ABP environment to '${profile}' (${apiClient.getBaseUrl()})`);
+    notifyToolListChanged();
+
+    // Another environment exposes other app services
+    if (options.appServiceTools || Object.keys(appServiceToolHandlers).length > 0 || environments.appServiceToolPatterns()) {
+      await loadAppServiceTools();
+      notifyToolListChanged();
     }
+  });
+
+  // Resources are read from the ABP API, so none are offered in info-only mode
+  const resourceHandlers = options.infoOnlyMode ? {} : abpResources(apiClient);
+
+  // Prompts guide the model through API-backed tools, so they are also skipped in info-only mode
+  const promptHandlers = options.infoOnlyMode ? {} : abpPrompts(apiClient, redactor);
+
+  // Create an MCP server; HTTP mode creates one per client session
+  const createMcpServer = (): Server => {
+    const server = new Server(
+      {
+        name: 'abp-io-mcp-server',
+        version: '1.3.0',
+      },
+      {
+        capabilities: {
+          tools: { listChanged: true },
+          resources: {},
+          prompts: {},
+        },
+      }
+    );
 
-    // Check for API credentials when tool is actually called (unless in info-only mode)
-    if (!options.infoOnlyMode && !options.apiKey) {
+    // Register list tools handler
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        content: [
-          {
-            type: 'text',
-            text: 'Error: ABP.IO API key is required. Please configure --api-key parameter or use --info-only-mode for informational tools only.',
-          },
-        ],
-        isError: true,
+        tools: Object.values(activeToolHandlers()).map((handler): Tool => ({
+          name: handler.name,
+          description: handler.description,
+          inputSchema: handler.inputSchema,
+          annotations: handler.annotations,
+          _meta: { category: handler.category },
+        })),
       };
-    }
+    });
 
-    try {
-      const result = await handler.execute(args || {});
+    // Register call tool handler
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      const handler = activeToolHandlers()[name];
+      if (!handler) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      // Every API call of this tool call shares one correlation ID, recorded in the journal
+      const trace: AbpRequestTrace = { correlationId: randomUUID().replace(/-/g, '') };
+      const startedAt = Date.now();
+      const record = (error?: unknown) => journal?.append({
+        timestamp: new Date(startedAt).toISOString(),
+        tool: name,
+        arguments: args || {},
+        baseUrl: apiClient.getBaseUrl(),
+        // Tenant the API calls ran in; tools that made no API call record the requested one
+        tenant: trace.tenant !== undefined ? trace.tenant : (args?.tenant as string | undefined) ?? apiClient.currentTenant() ?? null,
+        profile: environments?.activeName,
+        durationMs: Date.now() - startedAt,
+        outcome: error === undefined ? 'success' : 'error',
+        error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+        correlationId: trace.correlationId,
+      });
+
+      // Check for API credentials when tool is actually called (unless in info-only mode or the tool stays local)
+      if (!options.infoOnlyMode && !handler.localOnly && !apiClient.hasCredentials()) {
+        await record('ABP.IO API credentials are not configured');
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Error: ABP.IO API credentials are required. Please configure --api-key or --auth-server with --client-id, or use --info-only-mode for informational tools only.',
+            },
+          ],
+          isError: true,
+        };
+      }
+
+      try {
+        const result = await apiClient.withTrace(trace, () => handler.execute(args || {}));
+        await record();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(redactResult(redactor, result), null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        await record(error);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatToolError(redactor, error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    });
+
+    // Register resource handlers
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      return { resources: [] };
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
       return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(result, null, 2),
-          },
-        ],
+        resourceTemplates: Object.values(resourceHandlers).map((handler): ResourceTemplate => ({
+          uriTemplate: handler.uriTemplate,
+          name: handler.name,
+          description: handler.description,
+          mimeType: handler.mimeType,
+        })),
       };
-    } catch (error) {
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+
+      const resource = resolveResource(resourceHandlers, uri);
+      if (!resource) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+
+      if (!apiClient.hasCredentials()) {
+        throw new Error('ABP.IO API credentials are required to read resources. Please configure --api-key or --auth-server with --client-id.');
+      }
+
+      // ABP error messages often repeat the values they reject
+      const data = await resource.handler.read(resource.params).catch((error) => {
+        throw new Error(redactor.redact(error instanceof Error ? error.message : String(error)).value);
+      });
       return {
-        content: [
+        contents: [
           {
-            type: 'text',
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`,
+            uri,
+            mimeType: resource.handler.mimeType,
+            text: JSON.stringify(redactResult(redactor, data), null, 2),
           },
         ],
-        isError: true,
       };
-    }
-  });
+    });
+
+    // Register prompt handlers
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: Object.values(promptHandlers).map((handler): Prompt => ({
+          name: handler.name,
+          description: handler.description,
+          arguments: handler.arguments,
+        })),
+      };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      const handler = promptHandlers[name];
+      if (!handler) {
+        throw new Error(`Unknown prompt: ${name}`);
+      }
+
+      return {
+        description: handler.description,
+        messages: await handler.getMessages(args || {}),
+      };
+    });
+
+    servers.add(server);
+    server.onclose = () => {
+      servers.delete(server);
+    };
+
+    return server;
+  };
 
   // Start server FIRST
   if (options.stdio) {
     const transport = new StdioServerTransport();
-    await server.connect(transport);
-    
-    if (options.infoOnlyMode) {
-      console.error('ABP.IO MCP Server running in INFO-ONLY mode (no API authentication required)');
-      console.error(`Available tools: ${Object.keys(toolHandlers).length} informational tools`);
-    } else {
-      console.error('ABP.IO MCP Server running on stdio');
-      
-      // Test API connection AFTER server is running (optional)
-      if (options.apiKey) {
-        try {
-          await apiClient.testConnection();
-          console.error(`✓ Connected to ABP API at ${options.baseUrl}`);
-        } catch (error) {
-          console.error(`⚠ Warning: Could not connect to ABP API at ${options.baseUrl}`);
-          console.error(`  Tools are available but will require valid API connection to execute.`);
-        }
-      } else {
-        console.error(`⚠ No API key provided. Tools are available but will require --api-key to execute.`);
-        console.error(`  Use --info-only-mode to access informational tools without authentication.`);
-      }
+    await createMcpServer().connect(transport);
+  } else if (options.http) {
+    const port = parseInt(options.port, 10);
+    if (isNaN(port)) {
+      throw new Error(`Invalid --port value: ${options.port}`);
+    }
+
+    const sessionTimeout = parseFloat(options.sessionTimeout);
+    if (isNaN(sessionTimeout) || sessionTimeout <= 0) {
+      throw new Error(`Invalid --session-timeout value: ${options.sessionTimeout}`);
+    }
+
+    const authToken: string | undefined = options.httpToken || process.env.ABP_MCP_HTTP_TOKEN || undefined;
+    if (!isLoopbackHost(options.host) && !authToken) {
+      console.error(`⚠ Serving ABP tools on ${options.host} without --http-token: anyone who can reach port ${port} acts with this server's ABP credentials`);
     }
+
+    httpServer = await startHttpServer(createMcpServer, {
+      port,
+      host: options.host,
+      authToken,
+      allowedOrigins: splitList(options.allowedOrigins),
+      allowedHosts: splitList(options.allowedHosts),
+      sessionIdleTimeoutMs: sessionTimeout * 60_000,
+    });
   } else {
     console.log('Use --stdio flag to run as MCP server');
+    console.log('Use --http flag to serve MCP clients over HTTP (streamable HTTP and SSE)');
     console.log('Use --info-only-mode to enable only informational tools without API authentication');
     process.exit(0);
   }
+
+  const transportLabel = httpServer
+    ? `http://${options.host}:${httpServer.port} (streamable HTTP at /mcp, SSE at /sse)`
+    : 'stdio';
+
+  if (options.infoOnlyMode) {
+    console.error(`ABP.IO MCP Server running in INFO-ONLY mode on ${transportLabel} (no API authentication required)`);
+    console.error(`Available tools: ${Object.keys(activeToolHandlers()).length} informational tools`);
+  } else {
+    console.error(`ABP.IO MCP Server running on ${transportLabel}`);
+    if (environments) {
+      console.error(`Using profile '${environments.activeName}' from ${environments.configPath}`);
+    }
+    if (journal) {
+      console.error(`Journaling tool calls to ${journal.path}`);
+    }
+    if (!redactor.enabled) {
+      console.error('Redaction disabled: secrets and personal data are returned unmasked');
+    }
+    if (options.dryRun) {
+      console.error('Dry-run mode: mutating tools return a plan and do not change data');
+    }
+    if (options.readOnly) {
+      console.error(`Read-only mode: ${Object.keys(activeToolHandlers()).length} tools that do not change data`);
+    }
+
+    // Test API connection AFTER server is running (optional)
+    if (apiClient.hasCredentials()) {
+      try {
+        await apiClient.testConnection();
+        console.error(`✓ Connected to ABP API at ${apiClient.getBaseUrl()}`);
+        await warnAboutMissingEndpoints(apiClient);
+      } catch (error) {
+        console.error(`⚠ Warning: Could not connect to ABP API at ${apiClient.getBaseUrl()}`);
+        console.error(`  Tools are available but will require valid API connection to execute.`);
+      }
+    } else {
+      console.error(`⚠ No API credentials provided. Tools are available but will require --api-key or --auth-server to execute.`);
+      console.error(`  Use --info-only-mode to access informational tools without authentication.`);
+    }
+
+    await loadAppServiceTools();
+    if (Object.keys(appServiceToolHandlers).length > 0) {
+      notifyToolListChanged();
+    }
+  }
+}
+
+// Compare the endpoints the tools rely on with the server's API definition; older or trimmed ABP apps may not have them
+async function warnAboutMissingEndpoints(apiClient: AbpApiClient) {
+  try {
+    const missing = findMissingEndpoints(await apiClient.getApiDefinition());
+    if (missing.length > 0) {
+      console.error(`⚠ ${missing.length} endpoints used by this server are not exposed by the ABP API (run abp_discover_api for details):`);
+      missing.forEach((endpoint) => console.error(`  ${endpoint.method} ${endpoint.url}`));
+    }
+  } catch (error) {
+    console.error(`⚠ Could not read /api/abp/api-definition: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// Comma separated CLI values; undefined when the option is not given
+function splitList(value?: string): string[] | undefined {
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+}
+
+// Connection settings given as CLI flags
+function cliOverrides(): ClientConfigOverrides {
+  return {
+    baseUrl: options.baseUrl,
+    apiKey: options.apiKey,
+    defaultTenant: options.defaultTenant,
+    auth: options.authServer
+      ? {
+        authServer: options.authServer,
+        clientId: options.clientId,
+        clientSecret: options.clientSecret,
+        scope: options.scope,
+        grantType: options.username ? 'password' : 'client_credentials',
+        username: options.username,
+        password: options.password,
+      }
+      : undefined,
+  };
+}
+
+// Include ABP's error code, validation errors, HTTP status and correlation ID so the model can correct its input;
+// masked like results, since ABP error messages and validation details often repeat the submitted values
+function formatToolError(redactor: Redactor, error: unknown): string {
+  const message = redactor.redact(error instanceof Error ? error.message : String(error)).value;
+  if (error instanceof AbpRemoteError) {
+    return `Error: ${message}\n${JSON.stringify(redactor.redact({ error: error.toJSON() }).value, null, 2)}`;
+  }
+  return `Error: ${message}`;
+}
+
+// Masks secrets and lists the masked paths in a `redactions` field, so the model knows values were hidden
+function redactResult(redactor: Redactor, result: any): any {
+  const { value, redactions } = redactor.redact(result);
+  if (redactions.length === 0) {
+    return value;
+  }
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? { ...value, redactions }
+    : { data: value, redactions };
+}
+
+// Filter tools to only include those that declare themselves read-only
+function filterReadOnlyTools(allTools: ToolHandlers): ToolHandlers {
+  return Object.fromEntries(
+    Object.entries(allTools).filter(([, handler]) => handler.annotations.readOnlyHint)
+  );
 }
 
 // Filter tools to only include those that don't require API authentication
@@ -173,10 +534,18 @@ function filterInfoOnlyTools(allTools: Record<string, any>): Record<string, any>
 }
 
 // Handle errors
-process.on('SIGINT', async () => {
+async function shutdown() {
   console.error('\nShutting down ABP.IO MCP Server...');
+  if (httpServer) {
+    await httpServer.close().catch((error) => {
+      console.error('Error while closing HTTP sessions:', error);
+    });
+  }
   process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 process.on('unhandledRejection', (error) => {
   console.error('Unhandled promise rejection:', error);
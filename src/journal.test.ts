@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it } from '@jest/globals';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ToolJournal } from './journal.js';
+
+describe('ToolJournal', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it('masks secrets and personal data in arguments and errors', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'abp-journal-'));
+    const journal = new ToolJournal(join(directory, 'journal.jsonl'));
+
+    await journal.append({
+      timestamp: new Date().toISOString(),
+      tool: 'abp_create_user',
+      arguments: { userName: 'jdoe', email: 'jdoe@example.com', phoneNumber: '+1 555 0100', password: 'P@ssw0rd' },
+      baseUrl: 'https://localhost:44300',
+      tenant: null,
+      durationMs: 12,
+      outcome: 'error',
+      error: "Email 'jdoe@example.com' is already taken.",
+      correlationId: 'abc',
+    });
+
+    const [entry] = (await readFile(journal.path, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(entry.arguments).toEqual({ userName: 'jdoe', email: '***', phoneNumber: '***', password: '***' });
+    expect(entry.error).toBe("Email '***' is already taken.");
+  });
+});
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { appendFile, mkdir, readFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join, resolve } from 'node:path';
+import { matchesGlob } from './config.js';
+import { Redactor } from './redaction.js';
+
+export const DEFAULT_JOURNAL_PATH = join(homedir(), '.abp-mcp', 'journal.jsonl');
+
+export const MAX_JOURNAL_QUERY_RESULTS = 1000;
+
+export interface JournalEntry {
+  timestamp: string;
+  tool: string;
+  arguments: Record<string, any>;
+  baseUrl: string;
+  tenant: string | null;
+  profile?: string;
+  durationMs: number;
+  outcome: 'success' | 'error';
+  error?: string;
+  correlationId: string;
+}
+
+export interface JournalQuery {
+  from?: string;
+  to?: string;
+  // Tool name or glob pattern, e.g. "abp_delete_*"
+  tool?: string;
+  outcome?: 'success' | 'error';
+  limit?: number;
+}
+
+export interface JournalQueryResult {
+  entries: JournalEntry[];
+  totalCount: number;
+  truncated: boolean;
+}
+
+// Append-only JSONL record of every tool invocation
+export class ToolJournal {
+  readonly path: string;
+  private redactor: Redactor;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  // Arguments and errors are masked by the same rules as tool results, even when those are returned unmasked
+  constructor(path: string = DEFAULT_JOURNAL_PATH, redactor: Redactor = new Redactor()) {
+    this.path = resolve(path);
+    this.redactor = redactor;
+  }
+
+  // Writes are queued so entries keep their order; a failing write is reported but never fails the tool call
+  append(entry: JournalEntry): Promise<void> {
+    const redacted: JournalEntry = {
+      ...entry,
+      arguments: this.redactor.redact(entry.arguments).value,
+      error: entry.error === undefined ? undefined : this.redactor.redact(entry.error).value,
+    };
+
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await appendFile(this.path, JSON.stringify(redacted) + '\n', { encoding: 'utf8', flag: 'a' });
+      })
+      .catch((error) => {
+        console.error(`Could not write to journal ${this.path}:`, error instanceof Error ? error.message : error);
+      });
+    return this.pendingWrite;
+  }
+
+  // Newest entries first
+  async query(query: JournalQuery = {}): Promise<JournalQueryResult> {
+    await this.pendingWrite;
+
+    const from = query.from ? parseTimestamp(query.from, 'from') : undefined;
+    const to = query.to ? parseTimestamp(query.to, 'to') : undefined;
+    const limit = Math.min(query.limit || 100, MAX_JOURNAL_QUERY_RESULTS);
+
+    const matches = (await this.readEntries()).filter((entry) => {
+      const time = Date.parse(entry.timestamp);
+      return (from === undefined || time >= from) &&
+        (to === undefined || time <= to) &&
+        (!query.tool || matchesGlob(entry.tool, query.tool)) &&
+        (!query.outcome || entry.outcome === query.outcome);
+    });
+
+    matches.reverse();
+    return {
+      entries: matches.slice(0, limit),
+      totalCount: matches.length,
+      truncated: matches.length > limit,
+    };
+  }
+
+  private async readEntries(): Promise<JournalEntry[]> {
+    let raw: string;
+    try {
+      raw = await readFile(this.path, 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    // Skip lines that are not valid JSON, e.g. a partial line after a crash
+    return raw.split('\n').flatMap((line) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        return [JSON.parse(line) as JournalEntry];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
+
+function parseTimestamp(value: string, name: string): number {
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    throw new Error(`Invalid '${name}' timestamp: ${value}`);
+  }
+  return time;
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from '@jest/globals';
+import { AbpSecurityLog } from './abp-api-client.js';
+import { DEFAULT_LOGIN_ANOMALY_OPTIONS, detectLoginAnomalies, LOGIN_LOCKED_OUT, LOGIN_SUCCEEDED } from './login-anomalies.js';
+
+const since = new Date('2026-03-02T12:00:00Z');
+const options = { ...DEFAULT_LOGIN_ANOMALY_OPTIONS, since };
+
+let nextId = 0;
+
+// A security log the given number of minutes after `since` (negative for the baseline period)
+function log(minutes: number, action: string, userName: string, clientIpAddress: string, browserInfo = 'Firefox'): AbpSecurityLog {
+  return {
+    id: String(++nextId),
+    action,
+    userName,
+    clientIpAddress,
+    browserInfo,
+    creationTime: new Date(since.getTime() + minutes * 60_000).toISOString(),
+  };
+}
+
+const failures = (minutes: number[], userName = 'alice', clientIpAddress = '203.0.113.7') =>
+  minutes.map((minute) => log(minute, 'LoginInvalidUserNameOrPassword', userName, clientIpAddress));
+
+describe('detectLoginAnomalies', () => {
+  describe('brute force', () => {
+    it('reports a burst of failed logins per user and per IP', () => {
+      const anomalies = detectLoginAnomalies(failures([0, 1, 2, 3, 4]), options);
+
+      expect(anomalies).toHaveLength(2);
+      expect(anomalies).toEqual(expect.arrayContaining([
+        expect.objectContaining({ type: 'brute-force', scope: 'user', userName: 'alice', severity: 'medium', events: 5 }),
+        expect.objectContaining({ type: 'brute-force', scope: 'ip', clientIpAddress: '203.0.113.7', severity: 'medium', events: 5 }),
+      ]));
+    });
+
+    it('ignores fewer failures than the threshold', () => {
+      expect(detectLoginAnomalies(failures([0, 1, 2, 3]), options)).toEqual([]);
+      expect(detectLoginAnomalies(failures([0, 1, 2]), { ...options, failureThreshold: 3 })).toHaveLength(2);
+    });
+
+    it('counts failures exactly one window apart, but not one second later', () => {
+      expect(detectLoginAnomalies(failures([0, 4, 8, 12, 15]), options)).toHaveLength(2);
+      expect(detectLoginAnomalies(failures([0, 4, 8, 12, 15 + 1 / 60]), options)).toEqual([]);
+    });
+
+    it('reports one burst per run of overlapping windows', () => {
+      const anomalies = detectLoginAnomalies(failures([0, 1, 2, 3, 4, 60, 61, 62, 63, 64]), options)
+        .filter((anomaly) => anomaly.scope === 'user');
+
+      expect(anomalies.map((anomaly) => anomaly.events)).toEqual([5, 5]);
+    });
+
+    it('counts a user targeted from several IPs once per user', () => {
+      const logs = [0, 1, 2, 3, 4].map((minute) => log(minute, 'LoginFailed', 'alice', `198.51.100.${minute}`));
+      const anomalies = detectLoginAnomalies(logs, options);
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0]).toMatchObject({ scope: 'user', ipAddresses: logs.map((entry) => entry.clientIpAddress) });
+      expect(anomalies[0].details).toContain('from 5 IPs');
+    });
+
+    it('raises the severity when the burst is followed by a successful login and reports lockouts', () => {
+      const logs = [
+        ...failures([0, 1, 2, 3, 4]),
+        log(5, LOGIN_LOCKED_OUT, 'alice', '203.0.113.7'),
+        log(10, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+      ];
+      const [user] = detectLoginAnomalies(logs, options).filter((anomaly) => anomaly.scope === 'user');
+
+      expect(user.severity).toBe('high');
+      expect(user.details).toContain('1 lockouts');
+      expect(user.details).toContain('followed by a successful login');
+    });
+
+    it('does not count failures before the reported period', () => {
+      expect(detectLoginAnomalies(failures([-3, -2, -1, 0, 1]), options)).toEqual([]);
+    });
+
+    it('finds bursts in logs that arrive out of order', () => {
+      const logs = failures([4, 0, 3, 1, 2]);
+      const [user] = detectLoginAnomalies(logs, options).filter((anomaly) => anomaly.scope === 'user');
+
+      expect(user).toMatchObject({ firstSeen: logs[1].creationTime, lastSeen: logs[0].creationTime, events: 5 });
+    });
+  });
+
+  describe('new origins', () => {
+    it('reports a successful login from an IP the user has not used before', () => {
+      const logs = [
+        log(-24 * 60, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(5, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        // Same network as the known IP, so this is no impossible travel
+        log(10, LOGIN_SUCCEEDED, 'alice', '203.0.200.9'),
+        log(20, LOGIN_SUCCEEDED, 'alice', '203.0.200.9'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([
+        expect.objectContaining({ type: 'new-ip', severity: 'low', userName: 'alice', clientIpAddress: '203.0.200.9', events: 2 }),
+      ]);
+    });
+
+    it('reports a new user agent', () => {
+      const logs = [
+        log(-60, LOGIN_SUCCEEDED, 'alice', '203.0.113.7', 'Firefox'),
+        log(5, LOGIN_SUCCEEDED, 'alice', '203.0.113.7', 'curl/8.0'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([
+        expect.objectContaining({ type: 'new-user-agent', userName: 'alice', events: 1 }),
+      ]);
+    });
+
+    it('needs earlier successful logins of the user as a baseline', () => {
+      const logs = [
+        log(-60, 'LoginFailed', 'alice', '203.0.113.7'),
+        log(5, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+        log(6, LOGIN_SUCCEEDED, 'bob', '198.51.100.20'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([]);
+    });
+
+    it('uses the baseline when the logs arrive out of order', () => {
+      const logs = [
+        log(10, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+        log(-60, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options).map((anomaly) => anomaly.type)).toEqual(['new-ip']);
+    });
+  });
+
+  describe('impossible travel', () => {
+    it('reports logins from different public networks within the travel window', () => {
+      const logs = [
+        log(0, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(10, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([
+        expect.objectContaining({ type: 'impossible-travel', severity: 'high', userName: 'alice', events: 2, ipAddresses: ['203.0.113.7', '198.51.100.20'] }),
+      ]);
+    });
+
+    it('ignores logins further apart than the travel window', () => {
+      const logs = [
+        log(0, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(10 + 1 / 60, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([]);
+    });
+
+    it('treats addresses in the same /16 as one network and ignores private addresses', () => {
+      const logs = [
+        log(0, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(1, LOGIN_SUCCEEDED, 'alice', '203.0.200.9'),
+        log(2, LOGIN_SUCCEEDED, 'alice', '10.0.0.5'),
+        log(3, LOGIN_SUCCEEDED, 'alice', '192.168.1.20'),
+        log(4, LOGIN_SUCCEEDED, 'alice', '::1'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([]);
+    });
+
+    it('does not combine logins of different users', () => {
+      const logs = [
+        log(0, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(1, LOGIN_SUCCEEDED, 'bob', '198.51.100.20'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([]);
+    });
+
+    it('finds travel in logs that arrive out of order', () => {
+      const logs = [
+        log(30, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+        log(5, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+        log(0, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+      ];
+
+      expect(detectLoginAnomalies(logs, options)).toEqual([
+        expect.objectContaining({ type: 'impossible-travel', firstSeen: logs[2].creationTime, lastSeen: logs[1].creationTime, events: 2 }),
+      ]);
+    });
+  });
+
+  it('lists the most severe anomalies first', () => {
+    const logs = [
+      log(-60, LOGIN_SUCCEEDED, 'bob', '203.0.113.7'),
+      log(1, LOGIN_SUCCEEDED, 'bob', '192.0.2.1'),
+      ...failures([2, 3, 4, 5, 6], 'carol', '198.51.100.99'),
+      log(40, LOGIN_SUCCEEDED, 'alice', '203.0.113.7'),
+      log(42, LOGIN_SUCCEEDED, 'alice', '198.51.100.20'),
+    ];
+
+    expect(detectLoginAnomalies(logs, options).map((anomaly) => anomaly.severity)).toEqual(['high', 'medium', 'medium', 'low']);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,215 @@
+import { AbpSecurityLog } from './abp-api-client.js';
+
+export type LoginAnomalyType = 'brute-force' | 'new-ip' | 'new-user-agent' | 'impossible-travel';
+
+export interface LoginAnomaly {
+  type: LoginAnomalyType;
+  severity: 'low' | 'medium' | 'high';
+  // Brute force is reported per targeted user and per attacking IP
+  scope: 'user' | 'ip';
+  userName?: string;
+  clientIpAddress?: string;
+  firstSeen: string;
+  lastSeen: string;
+  events: number;
+  details: string;
+  userNames?: string[];
+  ipAddresses?: string[];
+}
+
+export interface LoginAnomalyOptions {
+  // Start of the reported period; earlier successful logins are the baseline for new IPs and user agents
+  since: Date;
+  failureThreshold: number;
+  bruteForceWindowMinutes: number;
+  travelWindowMinutes: number;
+}
+
+export const DEFAULT_LOGIN_ANOMALY_OPTIONS: Omit<LoginAnomalyOptions, 'since'> = {
+  failureThreshold: 5,
+  bruteForceWindowMinutes: 15,
+  travelWindowMinutes: 10,
+};
+
+// IdentitySecurityLogActionConsts
+export const LOGIN_SUCCEEDED = 'LoginSucceeded';
+export const LOGIN_LOCKED_OUT = 'LoginLockedout';
+export const FAILED_LOGIN_ACTIONS = ['LoginFailed', 'LoginInvalidUserName', 'LoginInvalidUserNameOrPassword'];
+
+const SEVERITY_ORDER = { high: 0, medium: 1, low: 2 };
+
+// Finds brute-force bursts, logins from IPs or user agents a user has not used before and
+// logins from distant networks within minutes of each other; logs may come in any order
+export function detectLoginAnomalies(logs: AbpSecurityLog[], options: LoginAnomalyOptions): LoginAnomaly[] {
+  const sorted = [...logs].sort((a, b) => time(a) - time(b));
+  const since = options.since.getTime();
+  const baseline = sorted.filter((log) => time(log) < since);
+  const recent = sorted.filter((log) => time(log) >= since);
+
+  return [
+    ...detectBruteForce(recent, options, 'user'),
+    ...detectBruteForce(recent, options, 'ip'),
+    ...detectNewOrigins(baseline, recent),
+    ...detectImpossibleTravel(recent, options),
+  ].sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || a.firstSeen.localeCompare(b.firstSeen));
+}
+
+function detectBruteForce(logs: AbpSecurityLog[], options: LoginAnomalyOptions, scope: 'user' | 'ip'): LoginAnomaly[] {
+  const keyOf = (log: AbpSecurityLog) => (scope === 'user' ? log.userName : log.clientIpAddress)?.toLowerCase();
+  const windowMs = options.bruteForceWindowMinutes * 60_000;
+  const anomalies: LoginAnomaly[] = [];
+
+  groupBy(logs.filter((log) => FAILED_LOGIN_ACTIONS.includes(log.action || '')), keyOf).forEach((failures) => {
+    bursts(failures, windowMs, (window) => window.length >= options.failureThreshold).forEach((burst) => {
+      const first = burst[0];
+      const last = burst[burst.length - 1];
+      const related = logs.filter((log) => keyOf(log) === keyOf(first) && time(log) >= time(first) && time(log) <= time(last) + windowMs);
+      const lockouts = related.filter((log) => log.action === LOGIN_LOCKED_OUT).length;
+      const succeeded = related.some((log) => log.action === LOGIN_SUCCEEDED);
+      const userNames = distinct(burst.map((log) => log.userName));
+      const ipAddresses = distinct(burst.map((log) => log.clientIpAddress));
+
+      anomalies.push({
+        type: 'brute-force',
+        severity: succeeded ? 'high' : 'medium',
+        scope,
+        userName: scope === 'user' ? first.userName : undefined,
+        clientIpAddress: scope === 'ip' ? first.clientIpAddress : undefined,
+        firstSeen: first.creationTime,
+        lastSeen: last.creationTime,
+        events: burst.length,
+        details: `${burst.length} failed logins ${scope === 'user' ? `for '${first.userName}' from ${ipAddresses.length} IPs` : `from ${first.clientIpAddress} for ${userNames.length} users`} within ${options.bruteForceWindowMinutes} minutes`
+          + (lockouts > 0 ? `, ${lockouts} lockouts` : '')
+          + (succeeded ? ', followed by a successful login' : ''),
+        userNames,
+        ipAddresses,
+      });
+    });
+  });
+  return anomalies;
+}
+
+function detectNewOrigins(baseline: AbpSecurityLog[], recent: AbpSecurityLog[]): LoginAnomaly[] {
+  const anomalies: LoginAnomaly[] = [];
+  const baselineByUser = groupBy(baseline.filter((log) => log.action === LOGIN_SUCCEEDED), (log) => log.userName?.toLowerCase());
+
+  groupBy(recent.filter((log) => log.action === LOGIN_SUCCEEDED), (log) => log.userName?.toLowerCase()).forEach((logins, user) => {
+    const known = baselineByUser.get(user);
+    // Without earlier logins every IP would be new
+    if (!known) {
+      return;
+    }
+
+    const check = (type: 'new-ip' | 'new-user-agent', valueOf: (log: AbpSecurityLog) => string | undefined, label: string) => {
+      const knownValues = new Set(known.map(valueOf).filter(Boolean));
+      groupBy(logins.filter((log) => !knownValues.has(valueOf(log))), valueOf).forEach((matches, value) => {
+        anomalies.push({
+          type,
+          severity: 'low',
+          scope: 'user',
+          userName: matches[0].userName,
+          clientIpAddress: type === 'new-ip' ? value : undefined,
+          firstSeen: matches[0].creationTime,
+          lastSeen: matches[matches.length - 1].creationTime,
+          events: matches.length,
+          details: `${matches.length} successful logins from ${label} '${value}' not seen in ${known.length} earlier logins`,
+          ipAddresses: distinct(matches.map((log) => log.clientIpAddress)),
+        });
+      });
+    };
+    check('new-ip', (log) => log.clientIpAddress, 'IP');
+    check('new-user-agent', (log) => log.browserInfo, 'user agent');
+  });
+  return anomalies;
+}
+
+// Without geolocation, logins of one user from different public networks within minutes stand in for impossible travel
+function detectImpossibleTravel(logs: AbpSecurityLog[], options: LoginAnomalyOptions): LoginAnomaly[] {
+  const windowMs = options.travelWindowMinutes * 60_000;
+  const anomalies: LoginAnomaly[] = [];
+  const logins = logs.filter((log) => log.action === LOGIN_SUCCEEDED && publicNetwork(log.clientIpAddress));
+
+  groupBy(logins, (log) => log.userName?.toLowerCase()).forEach((userLogins) => {
+    bursts(userLogins, windowMs, (window) => distinct(window.map((log) => publicNetwork(log.clientIpAddress))).length > 1).forEach((burst) => {
+      const ipAddresses = distinct(burst.map((log) => log.clientIpAddress));
+      anomalies.push({
+        type: 'impossible-travel',
+        severity: 'high',
+        scope: 'user',
+        userName: burst[0].userName,
+        firstSeen: burst[0].creationTime,
+        lastSeen: burst[burst.length - 1].creationTime,
+        events: burst.length,
+        details: `${burst.length} successful logins from ${distinct(burst.map((log) => publicNetwork(log.clientIpAddress))).length} networks (${ipAddresses.join(', ')}) within ${options.travelWindowMinutes} minutes`,
+        ipAddresses,
+      });
+    });
+  });
+  return anomalies;
+}
+
+// Runs of sorted events where every event lies in a window of windowMs that satisfies the condition
+function bursts(events: AbpSecurityLog[], windowMs: number, matches: (window: AbpSecurityLog[]) => boolean): AbpSecurityLog[][] {
+  const inBurst = new Array<boolean>(events.length).fill(false);
+  let start = 0;
+  events.forEach((event, end) => {
+    while (time(event) - time(events[start]) > windowMs) {
+      start++;
+    }
+    const window = events.slice(start, end + 1);
+    if (matches(window)) {
+      inBurst.fill(true, start, end + 1);
+    }
+  });
+
+  const result: AbpSecurityLog[][] = [];
+  events.forEach((event, index) => {
+    if (!inBurst[index]) {
+      return;
+    }
+    if (index > 0 && inBurst[index - 1] && time(event) - time(events[index - 1]) <= windowMs) {
+      result[result.length - 1].push(event);
+    } else {
+      result.push([event]);
+    }
+  });
+  return result;
+}
+
+// The /16 of a public IPv4 address or the /48 of a public IPv6 address; undefined for private and loopback addresses
+function publicNetwork(ip: string | undefined): string | undefined {
+  if (!ip) {
+    return undefined;
+  }
+  const ipv4 = ip.replace(/^::ffff:/i, '').match(/^(\d+)\.(\d+)\.\d+\.\d+$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    const isPrivate = a === 10 || a === 127 || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 169 && b === 254);
+    return isPrivate ? undefined : `${a}.${b}`;
+  }
+  const groups = ip.toLowerCase().split(':');
+  if (ip === '::1' || /^f[cd]/.test(groups[0]) || groups[0].startsWith('fe80')) {
+    return undefined;
+  }
+  return groups.slice(0, 3).join(':');
+}
+
+function groupBy(logs: AbpSecurityLog[], keyOf: (log: AbpSecurityLog) => string | undefined): Map<string, AbpSecurityLog[]> {
+  const groups = new Map<string, AbpSecurityLog[]>();
+  logs.forEach((log) => {
+    const key = keyOf(log);
+    if (key) {
+      const group = groups.get(key);
+      group ? group.push(log) : groups.set(key, [log]);
+    }
+  });
+  return groups;
+}
+
+function distinct(values: (string | undefined)[]): string[] {
+  return [...new Set(values.filter((value): value is string => !!value))];
+}
+
+function time(log: AbpSecurityLog): number {
+  return new Date(log.creationTime).getTime();
+}
\ No newline at end of file
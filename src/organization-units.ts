@@ -0,0 +1,81 @@
+import { AbpApiClient, AbpOrganizationUnit, AbpUserRoleSource } from './abp-api-client.js';
+
+export interface OrganizationUnitNode {
+  id: string;
+  displayName: string;
+  code: string;
+  parentId: string | null;
+  children: OrganizationUnitNode[];
+}
+
+// Nests the flat unit list by parent, sorted by code; rootId limits the tree to that unit and its descendants
+export function buildOrganizationUnitTree(units: AbpOrganizationUnit[], rootId?: string): OrganizationUnitNode[] {
+  const nodes = new Map<string, OrganizationUnitNode>(
+    [...units]
+      .sort((a, b) => a.code.localeCompare(b.code))
+      .map((unit) => [unit.id, { id: unit.id, displayName: unit.displayName, code: unit.code, parentId: unit.parentId || null, children: [] }])
+  );
+
+  const roots: OrganizationUnitNode[] = [];
+  nodes.forEach((node) => {
+    const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+    (parent ? parent.children : roots).push(node);
+  });
+
+  if (rootId) {
+    const root = nodes.get(rootId);
+    if (!root) {
+      throw new Error(`Organization unit ${rootId} not found`);
+    }
+    return [root];
+  }
+  return roots;
+}
+
+// The unit followed by every unit below it; descendant codes start with the unit's code ("00001.00002")
+export function organizationUnitSubtree(units: AbpOrganizationUnit[], id: string): AbpOrganizationUnit[] {
+  const unit = units.find((candidate) => candidate.id === id);
+  if (!unit) {
+    throw new Error(`Organization unit ${id} not found`);
+  }
+  return [unit, ...units.filter((candidate) => candidate.id !== id && candidate.code.startsWith(`${unit.code}.`))];
+}
+
+// "Headquarters / Sales / EMEA"
+export function organizationUnitPath(units: AbpOrganizationUnit[], unit: AbpOrganizationUnit): string {
+  const names: string[] = [];
+  let current: AbpOrganizationUnit | undefined = unit;
+  while (current && names.length <= units.length) {
+    names.unshift(current.displayName);
+    current = current.parentId ? units.find((candidate) => candidate.id === current!.parentId) : undefined;
+  }
+  return names.join(' / ');
+}
+
+// Roles a user holds through organization unit membership, by role name, with the units that grant them
+export async function organizationUnitRoleSources(apiClient: AbpApiClient, userId: string): Promise<Record<string, string[]>> {
+  const units = await apiClient.getUserOrganizationUnits(userId);
+  const sources: Record<string, string[]> = {};
+
+  for (const unit of units) {
+    const { items: roles } = await apiClient.getAllPages((r) => apiClient.getOrganizationUnitRoles(unit.id, r), {});
+    roles.forEach((role) => {
+      (sources[role.name] ??= []).push(unit.displayName);
+    });
+  }
+  return sources;
+}
+
+// Every role of a user with the organization units it is held through
+export async function userRoleSources(apiClient: AbpApiClient, userId: string): Promise<AbpUserRoleSource[]> {
+  const [roles, sources] = await Promise.all([apiClient.getUserRoles(userId), organizationUnitRoleSources(apiClient, userId)]);
+  return roles.map((role) => {
+    const organizationUnits = sources[role.name] || [];
+    return {
+      id: role.id,
+      name: role.name,
+      source: organizationUnits.length > 0 ? 'organization-unit' : 'direct',
+      organizationUnits,
+    };
+  });
+}
\ No newline at end of file
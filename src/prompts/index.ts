@@ -0,0 +1,198 @@
+import { PromptArgument, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { AbpApiClient } from '../abp-api-client.js';
+import { Redactor } from '../redaction.js';
+
+export interface PromptHandler {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  getMessages: (args: Record<string, string>) => Promise<PromptMessage[]>;
+}
+
+export type PromptHandlers = Record<string, PromptHandler>;
+
+// Upper bound on audit logs pulled into a single prompt
+const MAX_PROMPT_AUDIT_LOGS = 1000;
+
+export function abpPrompts(apiClient: AbpApiClient, redactor: Redactor = new Redactor()): PromptHandlers {
+  // Live data is masked like tool results before it is embedded in a prompt
+  const liveData = (title: string, fetch: () => Promise<any>) => fetchLiveData(redactor, title, fetch);
+
+  return {
+    abp_scaffold_crud: {
+      name: 'abp_scaffold_crud',
+      description: 'Scaffold a complete CRUD feature (entity, application service, UI) for an entity',
+      arguments: [
+        { name: 'entityName', description: 'Name of the entity, e.g. "Product"', required: true },
+        { name: 'namespace', description: 'Namespace of the entity, e.g. "MyApp.Products"', required: true },
+        { name: 'properties', description: 'Properties as "Name:type" pairs, e.g. "Name:string, Price:decimal"' },
+        { name: 'framework', description: 'UI framework: mvc, angular, blazor or blazor-server' },
+      ],
+      getMessages: async (args) => {
+        const { entityName, namespace, properties, framework } = requireArgs(args, ['entityName', 'namespace']);
+        const existing = await liveData('Existing entities in this namespace', async () => {
+          const entities = await apiClient.getEntities(namespace);
+          return entities.map(e => ({ id: e.id, name: e.name, properties: e.properties?.map(p => `${p.name}:${p.type}`) }));
+        });
+
+        return userMessage(`Scaffold a CRUD feature for the entity "${entityName}" in namespace "${namespace}".
+
+${existing}
+
+Requested properties: ${properties || 'not specified - propose a sensible set and confirm them with me first'}
+UI framework: ${framework || 'not specified - ask which one to use'}
+
+Steps:
+1. Check the existing entities above. If "${entityName}" already exists, reuse its ID and skip to step 3.
+2. Call \`abp_create_entity\` with name "${entityName}", namespace "${namespace}" and the properties (mark required fields with isRequired, set maxLength for strings). Use isAuditedEntity: true unless told otherwise.
+3. Call \`abp_generate_crud\` with the entity ID returned by step 1 or 2.
+4. If a UI framework is known, call \`abp_generate_page\` for the list page and the create/edit modal.
+5. Suggest the permission names (e.g. "${namespace.split('.')[0]}.${entityName}s.Create") and a menu item via \`abp_add_menu_item\`.
+6. Summarise what was created and what still has to be done manually (migrations, localization texts).`);
+      },
+    },
+
+    abp_onboard_tenant: {
+      name: 'abp_onboard_tenant',
+      description: 'Onboard a new tenant: create it, check editions and set up its first admin user',
+      arguments: [
+        { name: 'tenantName', description: 'Name of the new tenant', required: true },
+        { name: 'adminEmail', description: 'Email address of the tenant admin user' },
+        { name: 'editionId', description: 'Edition ID to assign to the tenant' },
+      ],
+      getMessages: async (args) => {
+        const { tenantName, adminEmail, editionId } = requireArgs(args, ['tenantName']);
+        const existing = await liveData('Tenants with a similar name', async () => {
+          const tenants = await apiClient.withTenant(null, () => apiClient.getTenants({ filter: tenantName }));
+          return tenants.items.map(t => ({ id: t.id, name: t.name, isActive: t.isActive, edition: t.editionDisplayName }));
+        });
+
+        return userMessage(`Onboard a new tenant named "${tenantName}".
+
+${existing}
+
+Edition: ${editionId || 'not specified - ask whether an edition should be assigned'}
+Admin email: ${adminEmail || 'not specified - ask for it before creating the admin user'}
+
+Steps:
+1. Check the tenants above. If a tenant named "${tenantName}" already exists, stop and report it instead of creating a duplicate.
+2. Call \`abp_create_tenant\` with name "${tenantName}"${editionId ? ` and editionId "${editionId}"` : ''}. Only pass a connectionString if I explicitly provide one.
+3. Create the tenant admin with \`abp_create_user\` and \`tenant: "${tenantName}"\`, using the admin email and the "admin" role. Generate a strong temporary password and tell me to change it.
+4. Verify the setup with \`abp_get_users\` and \`tenant: "${tenantName}"\`.
+5. Summarise the tenant ID, the admin user and any follow-up tasks (features, settings, DNS).`);
+      },
+    },
+
+    abp_investigate_errors: {
+      name: 'abp_investigate_errors',
+      description: 'Investigate failed requests and exceptions in the audit logs of the last N hours',
+      arguments: [
+        { name: 'hours', description: 'How many hours to look back (default: 24)' },
+        { name: 'serviceName', description: 'Only look at one application service' },
+      ],
+      getMessages: async (args) => {
+        const hours = Number(args.hours || 24);
+        if (!Number.isFinite(hours) || hours <= 0) {
+          throw new Error(`Invalid hours value: ${args.hours}`);
+        }
+
+        const endDate = new Date();
+        const startDate = new Date(endDate.getTime() - hours * 60 * 60 * 1000);
+        const errors = await liveData('Errors found in the audit logs', async () => {
+          const { items, totalCount, truncated } = await apiClient.getAllPages(
+            (r) => apiClient.getAuditLogs(r),
+            { startDate: startDate.toISOString(), endDate: endDate.toISOString() },
+            MAX_PROMPT_AUDIT_LOGS
+          );
+          const failed = items.filter(log =>
+            (log.exception || (log.httpStatusCode ?? 0) >= 400) &&
+            (!args.serviceName || log.serviceName === args.serviceName)
+          );
+
+          // Group by operation and first exception line so repeated failures show up once
+          const groups = failed.reduce((acc, log) => {
+            const firstLine = log.exception?.split('\n')[0].substring(0, 200) || `HTTP ${log.httpStatusCode}`;
+            const key = `${log.serviceName || '?'}.${log.methodName || '?'} | ${firstLine}`;
+            acc[key] = acc[key] || { operation: `${log.serviceName}.${log.methodName}`, error: firstLine, count: 0, sampleIds: [] as string[] };
+            acc[key].count++;
+            if (acc[key].sampleIds.length < 3) acc[key].sampleIds.push(log.id);
+            return acc;
+          }, {} as Record<string, { operation: string; error: string; count: number; sampleIds: string[] }>);
+
+          return {
+            scannedLogs: items.length,
+            totalLogs: totalCount,
+            truncated,
+            failedLogs: failed.length,
+            groups: Object.values(groups).sort((a, b) => b.count - a.count).slice(0, 20),
+          };
+        });
+
+        return userMessage(`Investigate the errors recorded in the ABP audit logs between ${startDate.toISOString()} and ${endDate.toISOString()} (last ${hours} hours)${args.serviceName ? ` for service "${args.serviceName}"` : ''}.
+
+${errors}
+
+Steps:
+1. Rank the error groups above by impact (count, affected operations).
+2. For the top groups, call \`abp_get_audit_log\` with one of the sample IDs to read the full exception, parameters and user.
+3. Call \`abp_get_audit_summary\` to compare the error rate with the overall traffic.
+4. For each group, explain the likely root cause (validation, authorization, business rule, infrastructure) and propose a fix.
+5. Do not change any data while investigating.`);
+      },
+    },
+
+    abp_review_role_permissions: {
+      name: 'abp_review_role_permissions',
+      description: 'Review the permission setup of a role and flag risky or missing grants',
+      arguments: [
+        { name: 'roleName', description: 'Name of the role to review, e.g. "admin"', required: true },
+      ],
+      getMessages: async (args) => {
+        const { roleName } = requireArgs(args, ['roleName']);
+        const permissions = await liveData(`Permissions of role "${roleName}"`, async () => {
+          // Every permission definition is returned; only the granted ones belong to the role
+          const granted = (await apiClient.getPermissions('R', roleName)).filter(p => p.isGranted);
+          const byGroup = granted.reduce((acc, p) => {
+            (acc[p.groupName] = acc[p.groupName] || []).push(p.name);
+            return acc;
+          }, {} as Record<string, string[]>);
+          return { count: granted.length, byGroup };
+        });
+
+        return userMessage(`Review the permission setup of the role "${roleName}".
+
+${permissions}
+
+Steps:
+1. Group the permissions above by module and summarise what the role is able to do.
+2. Flag risky grants: deletion permissions, tenant and feature management, permission management itself, and host-only permissions on a tenant role.
+3. Flag inconsistencies, e.g. a child permission (".Create", ".Delete") granted without its parent.
+4. Use \`abp_get_permissions_by_group\` to check for permissions the role probably needs but is missing.
+5. Propose concrete changes as a list of \`abp_grant_permission\` / \`abp_revoke_permission\` calls with providerName "R" and providerKey "${roleName}", but do not execute them until I confirm.`);
+      },
+    },
+  };
+}
+
+function requireArgs(args: Record<string, string>, names: string[]): Record<string, string> {
+  const missing = names.filter(name => !args[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing required prompt arguments: ${missing.join(', ')}`);
+  }
+  return args;
+}
+
+// Fetches live data for a prompt; failures are reported in the prompt instead of aborting it
+async function fetchLiveData(redactor: Redactor, title: string, fetch: () => Promise<any>): Promise<string> {
+  try {
+    const data = redactor.redact(await fetch()).value;
+    return `${title} (live data):\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+  } catch (error) {
+    const message = redactor.redact(error instanceof Error ? error.message : String(error)).value;
+    return `${title}: live data unavailable (${message}). Fetch it with the tools instead.`;
+  }
+}
+
+function userMessage(text: string): PromptMessage[] {
+  return [{ role: 'user', content: { type: 'text', text } }];
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from '@jest/globals';
+import { assertNoRedactedValues, Redactor } from './redaction.js';
+
+describe('Redactor', () => {
+  it('masks secrets and personal data in objects and strings', () => {
+    const { value, redactions } = new Redactor().redact({
+      data: { email: 'jdoe@example.com', phoneNumber: '555 0100', connectionString: 'Server=db;Password=hunter2' },
+    });
+
+    expect(value).toEqual({ data: { email: '***', phoneNumber: '***', connectionString: 'Server=db;Password=***' } });
+    expect(redactions.map((redaction) => redaction.path)).toEqual(['data.email', 'data.phoneNumber', 'data.connectionString']);
+  });
+
+  it('masks plain error messages', () => {
+    expect(new Redactor().redact("Email 'jdoe@example.com' is already taken.").value).toBe("Email '***' is already taken.");
+  });
+});
+
+describe('assertNoRedactedValues', () => {
+  it('rejects masked values passed back into an update', () => {
+    expect(() => assertNoRedactedValues({ phoneNumber: '***', roleNames: ['admin'] }, 'user 42'))
+      .toThrow("Refusing to update user 42: the redaction mask '***' is still in phoneNumber");
+    expect(() => assertNoRedactedValues({ connectionString: 'Server=db;Password=***' }, 'tenant 7')).toThrow('connectionString');
+  });
+
+  it('accepts real values', () => {
+    expect(() => assertNoRedactedValues({ phoneNumber: '+1 555 0100', isActive: true }, 'user 42')).not.toThrow();
+  });
+});
\ No newline at end of file
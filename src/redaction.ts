@@ -0,0 +1,174 @@
+import { matchesGlob, RedactionConfig } from './config.js';
+
+export const REDACTED = '***';
+
+// Field names whose values are secrets wherever they appear (API responses, audit log parameters, job arguments)
+const SENSITIVE_FIELD_PATTERN = /(password|passwordhash|pwd|secret|token|api[-_]?key|credentials?|securitystamp|privatekey)$/i;
+
+// Fields produced by this server that look sensitive but must reach the model, e.g. confirmation tokens
+const SERVER_FIELDS = ['confirmationToken'];
+
+// Field names holding personal data that is masked as a whole
+const PERSONAL_FIELD_PATTERN = /^(phone|phonenumber|mobile|mobilenumber)$/i;
+
+const CONNECTION_STRING_PASSWORD_PATTERN = /((?:^|;)\s*(?:password|pwd)\s*=\s*)("[^"]*"|'[^']*'|[^;]*)/gi;
+const JWT_PATTERN = /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g;
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi;
+// International format only, so dates, versions and GUIDs are not mistaken for phone numbers
+const PHONE_PATTERN = /\+\d{1,3}[\s.-]?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}\b/g;
+
+export type RedactionRule =
+  | 'deny'
+  | 'sensitive-field'
+  | 'personal-field'
+  | 'connection-string-password'
+  | 'jwt'
+  | 'email'
+  | 'phone';
+
+export interface Redaction {
+  path: string;
+  rules: RedactionRule[];
+}
+
+export interface RedactionResult<T> {
+  value: T;
+  redactions: Redaction[];
+}
+
+// Masks secrets and personal data in tool results before they are sent to the model
+export class Redactor {
+  private config: RedactionConfig;
+
+  constructor(config: RedactionConfig = {}) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled !== false;
+  }
+
+  redact<T>(value: T): RedactionResult<T> {
+    if (!this.enabled) {
+      return { value, redactions: [] };
+    }
+
+    const redactions: Redaction[] = [];
+    const redacted = this.redactValue(value, [], redactions);
+    return { value: redacted, redactions };
+  }
+
+  private redactValue(value: any, path: Array<string | number>, redactions: Redaction[]): any {
+    const key = path.length > 0 ? path[path.length - 1] : undefined;
+
+    if (typeof key === 'string' && value !== null && value !== undefined) {
+      if (this.matchesRule(this.config.deny, key, path)) {
+        redactions.push({ path: formatPath(path), rules: ['deny'] });
+        return REDACTED;
+      }
+      if (SERVER_FIELDS.includes(key) || this.matchesRule(this.config.allow, key, path)) {
+        return value;
+      }
+      if (SENSITIVE_FIELD_PATTERN.test(key) && (typeof value === 'string' || typeof value === 'number' || Array.isArray(value))) {
+        redactions.push({ path: formatPath(path), rules: ['sensitive-field'] });
+        return REDACTED;
+      }
+      if (PERSONAL_FIELD_PATTERN.test(key) && typeof value === 'string' && value) {
+        redactions.push({ path: formatPath(path), rules: ['personal-field'] });
+        return REDACTED;
+      }
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) => this.redactValue(item, [...path, index], redactions));
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [name, this.redactValue(item, [...path, name], redactions)])
+      );
+    }
+    if (typeof value === 'string') {
+      return this.redactString(value, path, redactions);
+    }
+    return value;
+  }
+
+  private redactString(value: string, path: Array<string | number>, redactions: Redaction[]): string {
+    // Audit log parameters, return values and job arguments are serialized JSON
+    const trimmed = value.trim();
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        const parsed = JSON.parse(trimmed);
+        const nested: Redaction[] = [];
+        const redacted = this.redactValue(parsed, path, nested);
+        if (nested.length === 0) {
+          return value;
+        }
+        redactions.push(...nested);
+        return JSON.stringify(redacted);
+      } catch {
+        // Not JSON, fall through to the string patterns
+      }
+    }
+
+    const patterns = this.config.patterns || {};
+    const rules: RedactionRule[] = [];
+    let result = value;
+
+    const replace = (rule: RedactionRule, enabled: boolean | undefined, pattern: RegExp, replacement: string) => {
+      if (enabled === false) {
+        return;
+      }
+      const replaced = result.replace(pattern, replacement);
+      if (replaced !== result) {
+        rules.push(rule);
+        result = replaced;
+      }
+    };
+
+    replace('connection-string-password', patterns.connectionStrings, CONNECTION_STRING_PASSWORD_PATTERN, `$1${REDACTED}`);
+    replace('jwt', patterns.jwts, JWT_PATTERN, REDACTED);
+    replace('email', patterns.emails, EMAIL_PATTERN, REDACTED);
+    replace('phone', patterns.phones, PHONE_PATTERN, REDACTED);
+
+    if (rules.length > 0) {
+      redactions.push({ path: formatPath(path), rules });
+    }
+    return result;
+  }
+
+  private matchesRule(patterns: string[] | undefined, key: string, path: Array<string | number>): boolean {
+    if (!patterns || patterns.length === 0) {
+      return false;
+    }
+    // Array indexes are left out of the dotted path, so "data.items.email" matches every item
+    const dottedPath = path.filter((segment) => typeof segment === 'string').join('.');
+    return patterns.some((pattern) => matchesGlob(key, pattern) || matchesGlob(dottedPath, pattern));
+  }
+}
+
+// Masked values fed back into an update would overwrite the real data with the mask
+export function assertNoRedactedValues(values: Record<string, any>, target: string): void {
+  const paths: string[] = [];
+  const visit = (value: any, path: Array<string | number>) => {
+    if (typeof value === 'string' && value.includes(REDACTED)) {
+      paths.push(formatPath(path));
+    } else if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, [...path, index]));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([name, item]) => visit(item, [...path, name]));
+    }
+  };
+  visit(values, []);
+
+  if (paths.length > 0) {
+    throw new Error(`Refusing to update ${target}: the redaction mask '${REDACTED}' is still in ${paths.join(', ')}. Leave these fields out to keep their current values, or pass the real values.`);
+  }
+}
+
+// e.g. data.items[0].connectionString
+function formatPath(path: Array<string | number>): string {
+  return path
+    .map((segment, index) => (typeof segment === 'number' ? `[${segment}]` : index === 0 ? segment : `.${segment}`))
+    .join('') || '(root)';
+}
@@ -0,0 +1,121 @@
+import { UriTemplate, Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { AbpApiClient } from '../abp-api-client.js';
+import { findRole, getRoleDetails } from '../roles.js';
+
+export interface ResourceTemplateHandler {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  read: (params: Record<string, string>) => Promise<any>;
+}
+
+export type ResourceTemplateHandlers = Record<string, ResourceTemplateHandler>;
+
+export interface ResolvedResource {
+  handler: ResourceTemplateHandler;
+  params: Record<string, string>;
+}
+
+export function abpResources(apiClient: AbpApiClient): ResourceTemplateHandlers {
+  return {
+    user: {
+      uriTemplate: 'abp://users/{id}',
+      name: 'ABP user',
+      description: 'An ABP Identity user by ID',
+      mimeType: 'application/json',
+      read: ({ id }) => apiClient.getUser(id),
+    },
+
+    tenant: {
+      uriTemplate: 'abp://tenants/{id}',
+      name: 'ABP tenant',
+      description: 'A SaaS tenant by ID',
+      mimeType: 'application/json',
+      // Tenant management is a host-side API
+      read: ({ id }) => apiClient.withTenant(null, () => apiClient.getTenant(id)),
+    },
+
+    role: {
+      uriTemplate: 'abp://roles/{roleName}',
+      name: 'ABP role',
+      description: 'A role by name, with its default, static and public flags, user count and granted permissions (same as abp_get_role)',
+      mimeType: 'application/json',
+      read: async ({ roleName }) => {
+        const details = await getRoleDetails(apiClient, await findRole(apiClient, { name: roleName }));
+        return { ...details, grantedPermissionCount: details.grantedPermissions.length };
+      },
+    },
+
+    permissionGroup: {
+      uriTemplate: 'abp://permissions/{groupName}',
+      name: 'ABP permission group',
+      description: 'Permission definitions of a permission group',
+      mimeType: 'application/json',
+      read: async ({ groupName }) => ({
+        groupName,
+        permissions: await apiClient.getPermissionsByGroup(groupName),
+      }),
+    },
+
+    auditLog: {
+      uriTemplate: 'abp://audit-logs/{id}',
+      name: 'ABP audit log',
+      description: 'An audit log entry by ID',
+      mimeType: 'application/json',
+      read: ({ id }) => apiClient.getAuditLog(id),
+    },
+
+    backgroundJob: {
+      uriTemplate: 'abp://background-jobs/{id}',
+      name: 'ABP background job',
+      description: 'A background job by ID',
+      mimeType: 'application/json',
+      read: ({ id }) => apiClient.getBackgroundJob(id),
+    },
+
+    localizationResource: {
+      uriTemplate: 'abp://localization/{resourceName}',
+      name: 'ABP localization resource',
+      description: 'Texts of a localization resource in the default culture',
+      mimeType: 'application/json',
+      read: ({ resourceName }) => apiClient.getLocalizationResource(resourceName),
+    },
+
+    localizationResourceCulture: {
+      uriTemplate: 'abp://localization/{resourceName}/{culture}',
+      name: 'ABP localization resource (culture)',
+      description: 'Texts of a localization resource in a specific culture (e.g. "en", "de-DE")',
+      mimeType: 'application/json',
+      read: ({ resourceName, culture }) => apiClient.getLocalizationResource(resourceName, culture),
+    },
+
+    menu: {
+      uriTemplate: 'abp://menus/{name}',
+      name: 'ABP navigation menu',
+      description: 'A navigation menu with its items, by menu name (e.g. "Main")',
+      mimeType: 'application/json',
+      read: ({ name }) => apiClient.getMenu(name),
+    },
+  };
+}
+
+// Finds the resource template that matches a concrete abp:// URI
+export function resolveResource(handlers: ResourceTemplateHandlers, uri: string): ResolvedResource | undefined {
+  for (const handler of Object.values(handlers)) {
+    const variables = new UriTemplate(handler.uriTemplate).match(uri);
+    if (variables) {
+      return { handler, params: toParams(variables) };
+    }
+  }
+  return undefined;
+}
+
+function toParams(variables: Variables): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(variables).map(([name, value]) => [
+      name,
+      decodeURIComponent(Array.isArray(value) ? value.join(',') : value),
+    ])
+  );
+}
@@ -0,0 +1,181 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { AbpApiClient } from './abp-api-client.js';
+import { CachedResponse, ResponseCache } from './response-cache.js';
+
+describe('ResponseCache', () => {
+  const entry = (resource: string, expiresAt = Date.now() + 60_000): CachedResponse => ({ data: {}, resource, expiresAt });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('treats entries as fresh until their expiry', () => {
+    const cache = new ResponseCache();
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    expect(cache.isFresh(entry('/api/themes', now + 1))).toBe(true);
+    expect(cache.isFresh(entry('/api/themes', now))).toBe(false);
+  });
+
+  it('invalidates entries whose resource is the mutated path or one of its parents', () => {
+    const cache = new ResponseCache();
+    cache.set('permissions', entry('/api/app/permissions'));
+    cache.set('modules', entry('/api/app/modules'));
+    cache.set('themes', entry('/api/themes'));
+
+    expect(cache.invalidate('/api/app/permissions/grant?x=1')).toBe(1);
+    expect(cache.invalidate('/API/Themes')).toBe(1);
+    // A path that merely shares the prefix is another resource
+    expect(cache.invalidate('/api/app/modules-extra')).toBe(0);
+
+    expect(cache.get('permissions')).toBeUndefined();
+    expect(cache.get('themes')).toBeUndefined();
+    expect(cache.get('modules')).toBeDefined();
+    expect(cache.getStats()).toMatchObject({ entries: 1, invalidated: 2 });
+  });
+
+  it('clears everything or the resources under a prefix', () => {
+    const cache = new ResponseCache();
+    cache.set('permissions', entry('/api/app/permissions'));
+    cache.set('modules', entry('/api/app/modules'));
+    cache.set('themes', entry('/api/themes'));
+
+    expect(cache.clear('/api/app')).toBe(2);
+    expect(cache.getStats().entries).toBe(1);
+    expect(cache.clear()).toBe(1);
+    expect(cache.getStats().entries).toBe(0);
+  });
+});
+
+describe('AbpApiClient response caching', () => {
+  let server: Server;
+  let baseUrl: string;
+  let version: number;
+  let requests: { method?: string; url?: string; ifNoneMatch?: string; status: number }[];
+
+  // Permissions carry an ETag of their version; a grant creates a new version
+  beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+      req.resume();
+      req.on('end', () => {
+        const etag = `"v${version}"`;
+        let status = 200;
+        if (req.method === 'POST' && req.url === '/api/app/permissions/grant') {
+          version++;
+          status = 204;
+          res.writeHead(status).end();
+        } else if (req.headers['if-none-match'] === etag) {
+          status = 304;
+          res.writeHead(status, { ETag: etag }).end();
+        } else {
+          res.writeHead(status, { 'Content-Type': 'application/json', ETag: etag });
+          res.end(JSON.stringify({ items: [{ name: 'AbpIdentity.Users', isGranted: version > 1 }] }));
+        }
+        requests.push({ method: req.method, url: req.url, ifNoneMatch: req.headers['if-none-match'], status });
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    version = 1;
+    requests = [];
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createClient = (ttlSeconds = 60) => new AbpApiClient({ baseUrl, apiKey: 'key', cache: { ttlSeconds: { permissions: ttlSeconds } } });
+
+  it('serves repeated lookups from memory within the TTL', async () => {
+    const client = createClient();
+
+    await client.getPermissions('R', 'admin');
+    const second = await client.getPermissions('R', 'admin');
+
+    expect(second).toEqual([{ name: 'AbpIdentity.Users', isGranted: false }]);
+    expect(requests).toHaveLength(1);
+    expect(client.getDiagnostics().cache).toMatchObject({ entries: 1, hits: 1, misses: 1 });
+  });
+
+  it('returns copies, so callers cannot change the cached data', async () => {
+    const client = createClient();
+
+    (await client.getPermissions())[0].isGranted = true;
+
+    await expect(client.getPermissions()).resolves.toEqual([{ name: 'AbpIdentity.Users', isGranted: false }]);
+  });
+
+  it('keeps lookups with other parameters apart', async () => {
+    const client = createClient();
+
+    await client.getPermissions('R', 'admin');
+    await client.getPermissions('U', '42');
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('revalidates an expired entry with its ETag and keeps it on 304', async () => {
+    const client = createClient();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await client.getPermissions();
+    clock.mockReturnValue(now + 60_000);
+    await expect(client.getPermissions()).resolves.toEqual([{ name: 'AbpIdentity.Users', isGranted: false }]);
+
+    expect(requests.map((request) => [request.ifNoneMatch, request.status])).toEqual([[undefined, 200], ['"v1"', 304]]);
+    expect(client.getDiagnostics().cache).toMatchObject({ revalidated: 1, misses: 1 });
+
+    // The revalidated entry is fresh for another TTL
+    clock.mockReturnValue(now + 119_999);
+    await client.getPermissions();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('replaces an expired entry when its ETag no longer matches', async () => {
+    const client = createClient();
+    const now = Date.now();
+    const clock = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await client.getPermissions();
+    version = 2;
+    clock.mockReturnValue(now + 60_000);
+
+    await expect(client.getPermissions()).resolves.toEqual([{ name: 'AbpIdentity.Users', isGranted: true }]);
+    expect(requests[1]).toMatchObject({ ifNoneMatch: '"v1"', status: 200 });
+  });
+
+  it('drops cached lookups of a resource after a write to it', async () => {
+    const client = createClient();
+
+    await client.getPermissions();
+    await client.grantPermission('R', 'admin', 'AbpIdentity.Users');
+
+    await expect(client.getPermissions()).resolves.toEqual([{ name: 'AbpIdentity.Users', isGranted: true }]);
+    expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+      'GET /api/app/permissions',
+      'POST /api/app/permissions/grant',
+      'GET /api/app/permissions',
+    ]);
+    expect(requests[2].ifNoneMatch).toBeUndefined();
+  });
+
+  it('does not cache when the TTL is 0', async () => {
+    const client = createClient(0);
+
+    await client.getPermissions();
+    await client.getPermissions();
+
+    expect(requests).toHaveLength(2);
+    expect(client.getDiagnostics().cache.entries).toBe(0);
+  });
+});
\ No newline at end of file
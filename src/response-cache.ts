@@ -0,0 +1,83 @@
+export interface CachedResponse {
+  data: any;
+  etag?: string;
+  // API path prefix whose mutations invalidate this entry, e.g. /api/app/permissions
+  resource: string;
+  expiresAt: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  hits: number;
+  misses: number;
+  revalidated: number;
+  invalidated: number;
+}
+
+// In-memory store behind AbpApiClient's cached lookups; entries past their TTL are kept for ETag revalidation
+export class ResponseCache {
+  private entries = new Map<string, CachedResponse>();
+  private stats = { hits: 0, misses: 0, revalidated: 0, invalidated: 0 };
+
+  // Returns the entry even when expired; callers check isFresh
+  get(key: string): CachedResponse | undefined {
+    return this.entries.get(key);
+  }
+
+  isFresh(entry: CachedResponse): boolean {
+    return Date.now() < entry.expiresAt;
+  }
+
+  set(key: string, entry: CachedResponse): void {
+    this.entries.set(key, entry);
+  }
+
+  recordHit(): void {
+    this.stats.hits++;
+  }
+
+  recordMiss(): void {
+    this.stats.misses++;
+  }
+
+  recordRevalidated(): void {
+    this.stats.revalidated++;
+  }
+
+  // Drops entries whose resource is a prefix of the mutated path; returns how many were removed
+  invalidate(path: string): number {
+    const normalized = path.split('?')[0].toLowerCase();
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      const resource = entry.resource.toLowerCase();
+      if (normalized === resource || normalized.startsWith(`${resource}/`)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    this.stats.invalidated += removed;
+    return removed;
+  }
+
+  // Clears everything, or only the entries of resources starting with the given prefix
+  clear(prefix?: string): number {
+    if (!prefix) {
+      const removed = this.entries.size;
+      this.entries.clear();
+      return removed;
+    }
+
+    let removed = 0;
+    this.entries.forEach((entry, key) => {
+      if (entry.resource.toLowerCase().startsWith(prefix.toLowerCase())) {
+        this.entries.delete(key);
+        removed++;
+      }
+    });
+    return removed;
+  }
+
+  getStats(): ResponseCacheStats {
+    return { entries: this.entries.size, ...this.stats };
+  }
+}
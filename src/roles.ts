@@ -0,0 +1,35 @@
+import { AbpApiClient, AbpRole } from './abp-api-client.js';
+
+export interface AbpRoleDetails {
+  role: AbpRole;
+  userCount: number;
+  grantedPermissions: string[];
+}
+
+// Roles are referenced by name elsewhere (roleNames, permission provider key "R"), so both are accepted
+export async function findRole(apiClient: AbpApiClient, { id, name }: { id?: string; name?: string }): Promise<AbpRole> {
+  if (id) {
+    return apiClient.getRole(id);
+  }
+  if (!name) {
+    throw new Error('Either a role ID or a role name is required');
+  }
+  const role = (await apiClient.getAllRoles()).find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+  if (!role) {
+    throw new Error(`Role '${name}' not found`);
+  }
+  return role;
+}
+
+// The role with the number of users in it and its granted permissions, as shown by abp_get_role and abp://roles/{roleName}
+export async function getRoleDetails(apiClient: AbpApiClient, role: AbpRole): Promise<AbpRoleDetails> {
+  const [userCount, permissions] = await Promise.all([
+    apiClient.getRoleUserCount(role.id),
+    apiClient.getPermissions('R', role.name),
+  ]);
+  return {
+    role,
+    userCount,
+    grantedPermissions: permissions.filter(p => p.isGranted).map(p => p.name),
+  };
+}
\ No newline at end of file
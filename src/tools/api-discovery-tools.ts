@@ -0,0 +1,229 @@
+import { z } from 'zod';
+import { AbpApiActionDefinition, AbpApiClient, AbpApiDefinition } from '../abp-api-client.js';
+import { buildActionRequest, findApiAction, findMissingEndpoints, listApiActions } from '../api-discovery.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planExecute } from './dry-run.js';
+
+const invokeActionSchema = z.object({
+  module: z.string(),
+  controller: z.string(),
+  action: z.string(),
+  arguments: z.record(z.any()).default({}),
+  allowMutation: z.boolean().default(false),
+});
+
+export function apiDiscoveryTools(apiClient: AbpApiClient): ToolHandlers {
+  return {
+    abp_discover_api: {
+      name: 'abp_discover_api',
+      description: 'List the HTTP API of the ABP application from /api/abp/api-definition: modules, controllers, actions, HTTP verbs, routes and parameter types. Also warns about endpoints this server relies on that the application does not expose.',
+      category: 'api',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          module: {
+            type: 'string',
+            description: 'Module name or glob, e.g. "identity" or "app" (optional)',
+          },
+          controller: {
+            type: 'string',
+            description: 'Controller name or glob, e.g. "IdentityUser*" (optional)',
+          },
+          action: {
+            type: 'string',
+            description: 'Action name or glob, e.g. "GetList*" (optional)',
+          },
+          includeParameters: {
+            type: 'boolean',
+            description: 'Include each action\'s parameters, their types and where they are bound (path, query, body)',
+            default: true,
+          },
+          includeTypes: {
+            type: 'boolean',
+            description: 'Include the definitions (properties, enums) of the DTO types used by the listed actions',
+            default: false,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { module, controller, action, includeParameters, includeTypes } = z.object({
+          module: z.string().optional(),
+          controller: z.string().optional(),
+          action: z.string().optional(),
+          includeParameters: z.boolean().default(true),
+          includeTypes: z.boolean().default(false),
+        }).parse(args);
+
+        const definition = await apiClient.getApiDefinition(includeTypes);
+        const actions = listApiActions(definition, { module, controller, action });
+
+        // Group the matching actions back into modules and controllers
+        const modules: Record<string, any> = {};
+        actions.forEach((match) => {
+          const moduleDefinition = definition.modules[match.module];
+          const moduleEntry = modules[match.module] ??= {
+            name: match.module,
+            rootPath: moduleDefinition.rootPath,
+            remoteServiceName: moduleDefinition.remoteServiceName,
+            controllers: {},
+          };
+          const controllerEntry = moduleEntry.controllers[match.controller.controllerName] ??= {
+            name: match.controller.controllerName,
+            groupName: match.controller.controllerGroupName,
+            type: match.controller.type,
+            isIntegrationService: match.controller.isIntegrationService || false,
+            actions: [],
+          };
+          controllerEntry.actions.push({
+            name: match.action.name,
+            uniqueName: match.action.uniqueName,
+            httpMethod: match.action.httpMethod,
+            url: match.action.url,
+            returnType: match.action.returnValue?.typeSimple,
+            allowAnonymous: match.action.allowAnonymous ?? null,
+            parameters: includeParameters
+              ? match.action.parameters.map((parameter) => ({
+                name: parameter.name,
+                nameOnMethod: parameter.nameOnMethod,
+                type: parameter.typeSimple,
+                isOptional: parameter.isOptional,
+                bindingSource: parameter.bindingSourceId || null,
+              }))
+              : undefined,
+          });
+        });
+
+        const missingEndpoints = findMissingEndpoints(definition);
+
+        return {
+          success: true,
+          data: Object.values(modules).map((moduleEntry) => ({
+            ...moduleEntry,
+            controllers: Object.values(moduleEntry.controllers),
+          })),
+          types: includeTypes ? usedTypes(definition, actions.map((match) => match.action)) : undefined,
+          counts: {
+            modules: Object.keys(modules).length,
+            controllers: Object.values(modules).reduce((sum, moduleEntry) => sum + Object.keys(moduleEntry.controllers).length, 0),
+            actions: actions.length,
+          },
+          missingEndpoints,
+          warnings: missingEndpoints.length > 0
+            ? [`${missingEndpoints.length} endpoints used by this MCP server are not exposed by ${apiClient.getBaseUrl()}; tools calling them will fail (see missingEndpoints)`]
+            : [],
+        };
+      },
+    } as ToolHandler,
+
+    abp_invoke_action: {
+      name: 'abp_invoke_action',
+      description: 'Call any action of the ABP HTTP API (e.g. your own app services) found with abp_discover_api. Arguments are validated against the declared parameter types and placed in the route, query string or body. Actions other than GET require allowMutation: true.',
+      category: 'api',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          module: {
+            type: 'string',
+            description: 'Module name from abp_discover_api, e.g. "app"',
+          },
+          controller: {
+            type: 'string',
+            description: 'Controller name or type, e.g. "Order"',
+          },
+          action: {
+            type: 'string',
+            description: 'Action name or unique name (for overloads), e.g. "GetListAsync" or "GetAsyncById"',
+          },
+          arguments: {
+            type: 'object',
+            description: 'Arguments keyed by the action\'s method parameter names, e.g. { "id": "...", "input": { "filter": "x" } }',
+          },
+          allowMutation: {
+            type: 'boolean',
+            description: 'Required for POST, PUT, PATCH and DELETE actions, which change data',
+            default: false,
+          },
+        },
+        required: ['module', 'controller', 'action'],
+      },
+      execute: async (args) => {
+        const { module, controller, action, arguments: actionArgs, allowMutation } = invokeActionSchema.parse(args);
+        const definition = await apiClient.getApiDefinition(true);
+        const match = findApiAction(definition, module, controller, action);
+        const request = buildActionRequest(match.action, actionArgs, definition.types);
+
+        if (request.method !== 'GET' && !allowMutation) {
+          throw new Error(`${match.controller.controllerName}.${match.action.uniqueName} is a ${request.method} action and may change data; call again with allowMutation: true to run it`);
+        }
+
+        const data = await apiClient.sendRequest(request);
+        return {
+          success: true,
+          data,
+          action: `${match.module}/${match.controller.controllerName}/${match.action.uniqueName}`,
+          request: `${request.method} ${request.url}`,
+        };
+      },
+      plan: async (args) => {
+        const { module, controller, action, arguments: actionArgs, allowMutation } = invokeActionSchema.parse(args);
+        const definition = await apiClient.getApiDefinition(true);
+        const match = findApiAction(definition, module, controller, action);
+        const request = buildActionRequest(match.action, actionArgs, definition.types);
+
+        // GET actions only read data, so they run even in dry-run mode
+        if (request.method === 'GET') {
+          return undefined;
+        }
+
+        return planExecute(
+          `${match.controller.controllerName}.${match.action.uniqueName} (${request.method} ${request.url})`,
+          request,
+          null,
+          allowMutation ? undefined : ['allowMutation: true is required to run this action']
+        );
+      },
+    } as ToolHandler,
+  };
+}
+
+// Type definitions referenced by the actions' parameters and return values, including nested property types
+function usedTypes(definition: AbpApiDefinition, actions: AbpApiActionDefinition[]): Record<string, any> {
+  const types = definition.types || {};
+  const result: Record<string, any> = {};
+  const pending = actions.flatMap((action) => [
+    ...action.parameters.map((parameter) => parameter.type),
+    action.returnValue?.type,
+  ]);
+
+  while (pending.length > 0) {
+    const typeName = pending.pop();
+    if (!typeName || result[typeName]) {
+      continue;
+    }
+
+    // Generic and collection types, e.g. PagedResultDto<IdentityUserDto> or [IdentityUserDto]
+    const referenced = typeName.match(/[\w.]+/g) || [];
+    referenced.filter((name) => name !== typeName && types[name]).forEach((name) => pending.push(name));
+
+    const typeDefinition = types[typeName];
+    if (typeDefinition) {
+      result[typeName] = typeDefinition;
+      (typeDefinition.properties || []).forEach((property) => pending.push(property.type));
+      if (typeDefinition.baseType) {
+        pending.push(typeDefinition.baseType);
+      }
+    }
+  }
+
+  return result;
+}
\ No newline at end of file
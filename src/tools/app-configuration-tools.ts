@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import { AbpApiClient, AbpApplicationConfiguration } from '../abp-api-client.js';
+import { matchesGlob } from '../config.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+const SECTIONS = [
+  'currentUser',
+  'auth',
+  'features',
+  'globalFeatures',
+  'setting',
+  'localization',
+  'multiTenancy',
+  'currentTenant',
+  'timing',
+  'clock',
+  'objectExtensions',
+  'extraProperties',
+] as const;
+
+type Section = typeof SECTIONS[number];
+
+// Localization texts and object extensions are large, so they are only returned when asked for
+const DEFAULT_SECTIONS: Section[] = SECTIONS.filter((section) => section !== 'localization' && section !== 'objectExtensions');
+
+export function appConfigurationTools(apiClient: AbpApiClient): ToolHandlers {
+  return {
+    abp_get_app_configuration: {
+      name: 'abp_get_app_configuration',
+      description: 'Get the ABP application configuration as seen by the current credentials: current user, granted policies (auth), feature values, settings, localization, timing and multi-tenancy. Request only the sections you need.',
+      category: 'configuration',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          sections: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: [...SECTIONS],
+            },
+            description: `Sections to return, e.g. ["auth"] for granted policies only or ["features"] for feature values only (default: ${DEFAULT_SECTIONS.join(', ')})`,
+          },
+          keyFilter: {
+            type: 'string',
+            description: 'Glob applied to policy, feature and setting names and localization resource names, e.g. "AbpIdentity.*" (optional)',
+          },
+          includeLocalizationResources: {
+            type: 'boolean',
+            description: 'Include the texts of every localization resource in the localization section (large)',
+            default: false,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { sections, keyFilter, includeLocalizationResources } = z.object({
+          sections: z.array(z.enum(SECTIONS)).min(1).optional(),
+          keyFilter: z.string().optional(),
+          includeLocalizationResources: z.boolean().default(false),
+        }).parse(args);
+        const selected = sections || DEFAULT_SECTIONS;
+
+        const configuration = await apiClient.getApplicationConfiguration(
+          includeLocalizationResources && selected.includes('localization')
+        );
+        const filtered = keyFilter ? filterKeys(configuration, keyFilter) : configuration;
+
+        return {
+          success: true,
+          data: Object.fromEntries(selected.map((section) => [section, filtered[section]])),
+          summary: {
+            userName: configuration.currentUser?.userName || null,
+            isAuthenticated: configuration.currentUser?.isAuthenticated ?? false,
+            tenant: configuration.currentTenant?.name || null,
+            grantedPolicies: Object.keys(filtered.auth?.grantedPolicies || {}).length,
+            features: Object.keys(filtered.features?.values || {}).length,
+            settings: Object.keys(filtered.setting?.values || {}).length,
+          },
+          sections: selected,
+          keyFilter: keyFilter || null,
+        };
+      },
+    } as ToolHandler,
+  };
+}
+
+// Keeps only the policy, feature, setting and localization resource entries whose name matches the glob
+function filterKeys(configuration: AbpApplicationConfiguration, pattern: string): AbpApplicationConfiguration {
+  const pick = <T>(values: Record<string, T> | undefined): Record<string, T> =>
+    Object.fromEntries(Object.entries(values || {}).filter(([name]) => matchesGlob(name, pattern)));
+
+  return {
+    ...configuration,
+    auth: { ...configuration.auth, grantedPolicies: pick(configuration.auth?.grantedPolicies) },
+    features: { ...configuration.features, values: pick(configuration.features?.values) },
+    setting: { ...configuration.setting, values: pick(configuration.setting?.values) },
+    localization: configuration.localization && {
+      ...configuration.localization,
+      values: pick(configuration.localization.values),
+      resources: configuration.localization.resources && pick(configuration.localization.resources),
+    },
+  };
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { AbpApiClient } from '../abp-api-client.js';
+import { actionInputSchema, buildActionRequest, listApiActions } from '../api-discovery.js';
+import { matchesGlob } from '../config.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planExecute } from './dry-run.js';
+
+// MCP tool names are limited to 64 characters
+const MAX_TOOL_NAME_LENGTH = 64;
+
+// One typed tool per action of the application services whose controller matches one of the patterns,
+// e.g. ["Order", "Invoice*", "app/Inventory*"]; names look like app_order_getList
+export async function appServiceTools(apiClient: AbpApiClient, controllerPatterns: string[]): Promise<ToolHandlers> {
+  const definition = await apiClient.getApiDefinition(true);
+  const types = definition.types || {};
+
+  const actions = listApiActions(definition).filter(({ module, controller }) =>
+    !controller.isIntegrationService &&
+    controllerPatterns.some((pattern) =>
+      matchesGlob(controller.controllerName, pattern) || matchesGlob(`${module}/${controller.controllerName}`, pattern)
+    )
+  );
+
+  const handlers: ToolHandlers = {};
+  actions.forEach(({ module, controller, action }) => {
+    // Overloads share a name, so they fall back to the unique name (getListByInput)
+    const overloaded = actions.filter((other) => other.controller === controller && other.action.name === action.name).length > 1;
+    const name = toolName(module, controller.controllerName, overloaded ? action.uniqueName : action.name);
+    if (handlers[name]) {
+      console.error(`Skipping app service tool ${name}: name already used by another action`);
+      return;
+    }
+
+    const method = action.httpMethod.toUpperCase();
+    handlers[name] = {
+      name,
+      description: `${controller.controllerName}.${action.name} of the ${module} module (${method} /${action.url.replace(/^\/+/, '')}), returns ${action.returnValue?.typeSimple || 'nothing'}`,
+      category: 'app-service',
+      annotations: {
+        readOnlyHint: method === 'GET',
+        destructiveHint: method === 'DELETE',
+        idempotentHint: method === 'GET' || method === 'PUT' || method === 'DELETE',
+      },
+      inputSchema: actionInputSchema(action, types),
+      execute: async (args) => {
+        const request = buildActionRequest(action, args || {}, types);
+        const data = await apiClient.sendRequest(request);
+        return {
+          success: true,
+          data,
+          request: `${request.method} ${request.url}`,
+        };
+      },
+      plan: method === 'GET' ? undefined : async (args) => {
+        const request = buildActionRequest(action, args || {}, types);
+        return planExecute(`${controller.controllerName}.${action.uniqueName} (${request.method} ${request.url})`, request);
+      },
+    } as ToolHandler;
+  });
+
+  return handlers;
+}
+
+// app + Order + GetListAsync -> app_order_getList
+function toolName(module: string, controller: string, action: string): string {
+  const camel = (value: string) => value.charAt(0).toLowerCase() + value.slice(1);
+  const actionName = action.replace(/Async(?=By|$)/, '');
+  return [module, camel(controller), camel(actionName)]
+    .join('_')
+    .replace(/[^A-Za-z0-9_-]/g, '_')
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
\ No newline at end of file
@@ -1,12 +1,17 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planUpdate } from './dry-run.js';
 
 export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_applications: {
       name: 'abp_get_applications',
       description: 'Get all ABP applications',
+      category: 'application',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -25,6 +30,10 @@ export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_application: {
       name: 'abp_get_application',
       description: 'Get a specific ABP application by ID',
+      category: 'application',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -48,6 +57,12 @@ export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
     abp_create_application: {
       name: 'abp_create_application',
       description: 'Create a new ABP application',
+      category: 'application',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -100,11 +115,18 @@ export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Application '${application.displayName}' created successfully`,
         };
       },
+      plan: async (args) => planCreate(`application '${args.name}'`, args),
     } as ToolHandler,
 
     abp_update_application: {
       name: 'abp_update_application',
       description: 'Update an existing ABP application',
+      category: 'application',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -145,11 +167,27 @@ export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Application updated successfully`,
         };
       },
+      plan: async (args) => {
+        const { id, ...updateData } = z.object({
+          id: z.string(),
+          displayName: z.string().optional(),
+          url: z.string().optional(),
+          status: z.enum(['Running', 'Stopped', 'Error']).optional(),
+        }).parse(args);
+        return planUpdate(`application ${id}`, () => apiClient.getApplication(id), updateData);
+      },
     } as ToolHandler,
 
     abp_delete_application: {
       name: 'abp_delete_application',
       description: 'Delete an ABP application',
+      category: 'application',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -169,6 +207,10 @@ export function applicationTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Application deleted successfully`,
         };
       },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planDelete(`application ${id}`, () => apiClient.getApplication(id));
+      },
     } as ToolHandler,
   };
 } 
\ No newline at end of file
@@ -1,12 +1,17 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
 
 export function auditTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_audit_logs: {
       name: 'abp_get_audit_logs',
-      description: 'Get ABP audit logs with optional filtering',
+      description: 'Get ABP audit logs with optional filtering, paging and sorting',
+      category: 'audit',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -22,21 +27,25 @@ export function auditTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'Filter by user ID',
           },
+          ...pagingProperties,
         },
         required: [],
       },
       execute: async (args) => {
-        const { startDate, endDate, userId } = z.object({
+        const request = pagingSchema.extend({
           startDate: z.string().optional(),
           endDate: z.string().optional(),
           userId: z.string().optional(),
         }).parse(args);
+        const { startDate, endDate } = request;
         
-        const auditLogs = await apiClient.getAuditLogs(startDate, endDate, userId);
+        const { items: auditLogs, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getAuditLogs(r), request);
         return {
           success: true,
           data: auditLogs,
           count: auditLogs.length,
+          totalCount,
+          paging,
           dateRange: startDate && endDate ? { startDate, endDate } : null,
           uniqueUsers: [...new Set(auditLogs.map(log => log.userId).filter(Boolean))].length,
           uniqueServices: [...new Set(auditLogs.map(log => log.serviceName).filter(Boolean))].length,
@@ -47,6 +56,10 @@ export function auditTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_audit_log: {
       name: 'abp_get_audit_log',
       description: 'Get a specific ABP audit log by ID',
+      category: 'audit',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -70,6 +83,10 @@ export function auditTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_audit_summary: {
       name: 'abp_get_audit_summary',
       description: 'Get a summary of audit log statistics',
+      category: 'audit',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -89,9 +106,9 @@ export function auditTools(apiClient: AbpApiClient): ToolHandlers {
         const startDate = new Date();
         startDate.setDate(endDate.getDate() - days);
         
-        const auditLogs = await apiClient.getAuditLogs(
-          startDate.toISOString(),
-          endDate.toISOString()
+        const { items: auditLogs, truncated } = await apiClient.getAllPages(
+          (r) => apiClient.getAuditLogs(r),
+          { startDate: startDate.toISOString(), endDate: endDate.toISOString() }
         );
         
         // Calculate statistics
@@ -121,6 +138,7 @@ export function auditTools(apiClient: AbpApiClient): ToolHandlers {
               days,
               startDate: startDate.toISOString(),
               endDate: endDate.toISOString(),
+              truncated,
             },
             summary: {
               totalLogs,
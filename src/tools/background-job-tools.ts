@@ -1,12 +1,18 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete } from './dry-run.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
 
 export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_background_jobs: {
       name: 'abp_get_background_jobs',
-      description: 'Get ABP background jobs with optional type filtering',
+      description: 'Get ABP background jobs with optional type filtering, paging and sorting',
+      category: 'background-job',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -14,17 +20,20 @@ export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'Filter jobs by type (optional)',
           },
+          ...pagingProperties,
         },
         required: [],
       },
       execute: async (args) => {
-        const { jobType } = z.object({ jobType: z.string().optional() }).parse(args);
-        const jobs = await apiClient.getBackgroundJobs(jobType);
+        const request = pagingSchema.extend({ jobType: z.string().optional() }).parse(args);
+        const { items: jobs, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getBackgroundJobs(r), request);
         
         return {
           success: true,
           data: jobs,
           count: jobs.length,
+          totalCount,
+          paging,
           pending: jobs.filter(j => !j.isAbandoned && j.tryCount < j.maxTryCount).length,
           completed: jobs.filter(j => !j.isAbandoned && j.tryCount >= j.maxTryCount).length,
           abandoned: jobs.filter(j => j.isAbandoned).length,
@@ -36,6 +45,10 @@ export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_background_job: {
       name: 'abp_get_background_job',
       description: 'Get a specific ABP background job by ID',
+      category: 'background-job',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -59,6 +72,12 @@ export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
     abp_enqueue_background_job: {
       name: 'abp_enqueue_background_job',
       description: 'Enqueue a new ABP background job',
+      category: 'background-job',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -93,11 +112,25 @@ export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Background job '${jobType}' enqueued successfully`,
         };
       },
+      plan: async (args) => {
+        const { jobType, args: jobArgs, priority } = z.object({
+          jobType: z.string(),
+          args: z.any(),
+          priority: z.enum(['Low', 'Normal', 'High']).default('Normal'),
+        }).parse(args);
+        return planCreate(`background job '${jobType}'`, { jobType, args: jobArgs, priority });
+      },
     } as ToolHandler,
 
     abp_delete_background_job: {
       name: 'abp_delete_background_job',
       description: 'Delete an ABP background job',
+      category: 'background-job',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -116,11 +149,19 @@ export function backgroundJobTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Background job deleted successfully`,
         };
       },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planDelete(`background job ${id}`, () => apiClient.getBackgroundJob(id));
+      },
     } as ToolHandler,
 
     abp_get_common_job_types: {
       name: 'abp_get_common_job_types',
       description: 'Get list of common ABP background job types',
+      category: 'background-job',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
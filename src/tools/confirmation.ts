@@ -0,0 +1,108 @@
+import { randomUUID } from 'node:crypto';
+import { AbpApiClient } from '../abp-api-client.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+// How long a confirmation token stays valid after the preview call
+export const CONFIRMATION_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+interface PendingConfirmation {
+  tool: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+const confirmationTokenProperty = {
+  type: 'string',
+  description: 'Token returned by the previous call of this tool with the same arguments; required to actually run it',
+};
+
+// Tools flagged with requiresConfirmation run in two steps: a preview that issues a token, then the call with that token
+export function confirmable(apiClient: AbpApiClient, handlers: ToolHandlers): ToolHandlers {
+  const pending = new Map<string, PendingConfirmation>();
+
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => {
+      const plan = handler.plan;
+      if (!handler.requiresConfirmation || !plan) {
+        return [name, handler];
+      }
+
+      return [
+        name,
+        {
+          ...handler,
+          description: `${handler.description}. Requires confirmation: the first call returns a preview and a confirmationToken, call again with the same arguments and the token to execute.`,
+          inputSchema: {
+            ...handler.inputSchema,
+            properties: {
+              ...handler.inputSchema.properties,
+              confirmationToken: confirmationTokenProperty,
+            },
+          },
+          execute: async (args) => {
+            const { confirmationToken, ...toolArgs } = args || {};
+            const fingerprint = fingerprintOf(apiClient.getBaseUrl(), toolArgs);
+            const now = Date.now();
+
+            pending.forEach((confirmation, token) => {
+              if (confirmation.expiresAt <= now) {
+                pending.delete(token);
+              }
+            });
+
+            if (!confirmationToken) {
+              const preview = await plan(toolArgs);
+              if (!preview) {
+                return handler.execute(toolArgs);
+              }
+              const token = randomUUID().replace(/-/g, '');
+              const expiresAt = now + CONFIRMATION_TOKEN_TTL_MS;
+              pending.set(token, { tool: name, fingerprint, expiresAt });
+
+              return {
+                success: true,
+                confirmationRequired: true,
+                preview,
+                confirmationToken: token,
+                expiresAt: new Date(expiresAt).toISOString(),
+                message: `Nothing was changed. Call ${name} again with the same arguments and confirmationToken to proceed.`,
+              };
+            }
+
+            const confirmation = pending.get(confirmationToken);
+            if (!confirmation || confirmation.tool !== name) {
+              throw new Error(`Invalid or expired confirmation token for ${name}; call it again without a token to get a new preview`);
+            }
+            if (confirmation.fingerprint !== fingerprint) {
+              throw new Error(`Confirmation token for ${name} was issued for different arguments; call it again without a token to get a new preview`);
+            }
+
+            // Tokens are single-use
+            pending.delete(confirmationToken);
+            return handler.execute(toolArgs);
+          },
+        } as ToolHandler,
+      ];
+    })
+  );
+}
+
+// Key-order independent serialization of the arguments and the ABP instance they target
+function fingerprintOf(baseUrl: string, args: Record<string, any>): string {
+  return JSON.stringify([baseUrl, sortKeys(args)]);
+}
+
+function sortKeys(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter((key) => value[key] !== undefined)
+        .sort()
+        .map((key) => [key, sortKeys(value[key])])
+    );
+  }
+  return value;
+}
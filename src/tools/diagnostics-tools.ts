@@ -0,0 +1,61 @@
+import { z } from 'zod';
+import { AbpApiClient } from '../abp-api-client.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+export function diagnosticsTools(apiClient: AbpApiClient): ToolHandlers {
+  return {
+    abp_get_diagnostics: {
+      name: 'abp_get_diagnostics',
+      description: 'Report the health of the connection to ABP: circuit breaker state per base URL, recent failures, retry settings and response cache statistics',
+      category: 'diagnostics',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      execute: async () => {
+        const diagnostics = apiClient.getDiagnostics();
+        const current = diagnostics.circuitBreakers.find((breaker) => breaker.baseUrl === diagnostics.baseUrl);
+        return {
+          success: true,
+          data: diagnostics,
+          message: current && current.state !== 'closed'
+            ? `Circuit breaker for ${diagnostics.baseUrl} is ${current.state}: calls fail fast until ${current.retryAt || 'the trial request completes'}`
+            : `Circuit breaker for ${diagnostics.baseUrl} is closed`,
+        };
+      },
+    } as ToolHandler,
+
+    abp_clear_cache: {
+      name: 'abp_clear_cache',
+      description: 'Clear the in-memory cache of ABP lookups (permissions, cultures, themes, modules, localization resources, API definition) so the next calls fetch fresh data. Does not change anything in ABP.',
+      category: 'diagnostics',
+      annotations: {
+        readOnlyHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          prefix: {
+            type: 'string',
+            description: 'Only clear lookups whose API path starts with this prefix, e.g. "/api/app/permissions" (optional, default: everything)',
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { prefix } = z.object({ prefix: z.string().optional() }).parse(args);
+        const removed = apiClient.clearCache(prefix);
+        return {
+          success: true,
+          removed,
+          message: `Removed ${removed} cached ${removed === 1 ? 'response' : 'responses'}`,
+        };
+      },
+    } as ToolHandler,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals';
+import { dryRunnable, planExecute } from './dry-run.js';
+import { ToolHandler } from './index.js';
+
+const mutatingTool = (plan: ToolHandler['plan']): ToolHandler => ({
+  name: 'abp_test',
+  description: 'Test tool',
+  category: 'api',
+  annotations: { readOnlyHint: false },
+  inputSchema: { type: 'object', properties: {} },
+  execute: async () => ({ success: true, executed: true }),
+  plan,
+});
+
+describe('dryRunnable', () => {
+  it('returns the plan instead of executing under --dry-run', async () => {
+    const { abp_test } = dryRunnable({ abp_test: mutatingTool(async () => planExecute('test', { value: 1 })) }, { always: true });
+
+    await expect(abp_test.execute({})).resolves.toMatchObject({ dryRun: true, plan: { action: 'execute', target: 'test' } });
+  });
+
+  it('executes calls whose plan reports that they change no data', async () => {
+    const { abp_test } = dryRunnable({ abp_test: mutatingTool(async () => undefined) }, { always: true });
+
+    await expect(abp_test.execute({ dryRun: true })).resolves.toEqual({ success: true, executed: true });
+  });
+
+  it('leaves tools without a plan alone', async () => {
+    const { abp_test } = dryRunnable({ abp_test: mutatingTool(undefined) }, { always: true });
+
+    expect(abp_test.inputSchema.properties.dryRun).toBeUndefined();
+    await expect(abp_test.execute({})).resolves.toEqual({ success: true, executed: true });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { ToolHandler, ToolHandlers } from './index.js';
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// What a mutating tool would do, computed from the current state without sending the change
+export interface ToolPlan {
+  action: 'create' | 'update' | 'delete' | 'execute';
+  target: string;
+  before: any;
+  after: any;
+  changes: FieldChange[];
+  warnings?: string[];
+}
+
+export interface DryRunOptions {
+  // Plan every mutating call instead of executing it (server-wide --dry-run)
+  always?: boolean;
+}
+
+const dryRunProperty = {
+  type: 'boolean',
+  description: 'Only compute and return a before/after diff of what this call would change, without changing anything',
+  default: false,
+};
+
+// Adds a `dryRun` argument to each mutating tool that declares a plan
+export function dryRunnable(handlers: ToolHandlers, options: DryRunOptions = {}): ToolHandlers {
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => {
+      const plan = handler.plan;
+      if (handler.annotations.readOnlyHint || !plan) {
+        return [name, handler];
+      }
+
+      return [
+        name,
+        {
+          ...handler,
+          inputSchema: {
+            ...handler.inputSchema,
+            properties: {
+              ...handler.inputSchema.properties,
+              dryRun: dryRunProperty,
+            },
+          },
+          execute: async (args) => {
+            const { dryRun, ...toolArgs } = args || {};
+            if (!dryRun && !options.always) {
+              return handler.execute(toolArgs);
+            }
+
+            const planned = await plan(toolArgs);
+            if (!planned) {
+              return handler.execute(toolArgs);
+            }
+
+            return {
+              success: true,
+              dryRun: true,
+              plan: planned,
+              message: `Dry run: ${name} was not executed`,
+            };
+          },
+        } as ToolHandler,
+      ];
+    })
+  );
+}
+
+// Field-level diff of the fields present in `after`; unset (undefined) fields are left out
+export function diffFields(before: Record<string, any> | null | undefined, after: Record<string, any> | null | undefined): FieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const changes: FieldChange[] = [];
+
+  fields.forEach((field) => {
+    const oldValue = before?.[field];
+    const newValue = after?.[field];
+    if (after && newValue === undefined) {
+      return;
+    }
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue ?? null, after: newValue ?? null });
+    }
+  });
+
+  return changes;
+}
+
+export function planCreate(target: string, values: Record<string, any>, warnings?: string[]): ToolPlan {
+  return {
+    action: 'create',
+    target,
+    before: null,
+    after: values,
+    changes: diffFields(null, values),
+    warnings,
+  };
+}
+
+export async function planUpdate<T extends Record<string, any>>(
+  target: string,
+  fetchCurrent: () => Promise<T>,
+  values: Record<string, any>
+): Promise<ToolPlan> {
+  const before = await fetchCurrent();
+  const changes = diffFields(before, values);
+  return {
+    action: 'update',
+    target,
+    before,
+    after: { ...before, ...stripUndefined(values) },
+    changes,
+    warnings: changes.length === 0 ? ['No field would change'] : undefined,
+  };
+}
+
+export async function planDelete<T extends Record<string, any>>(
+  target: string,
+  fetchCurrent: () => Promise<T>
+): Promise<ToolPlan> {
+  const before = await fetchCurrent();
+  return {
+    action: 'delete',
+    target,
+    before,
+    after: null,
+    changes: diffFields(before, null),
+  };
+}
+
+export function planExecute(target: string, values: Record<string, any>, before: any = null, warnings?: string[]): ToolPlan {
+  return {
+    action: 'execute',
+    target,
+    before,
+    after: values,
+    changes: [],
+    warnings,
+  };
+}
+
+function stripUndefined(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
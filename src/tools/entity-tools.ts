@@ -1,12 +1,17 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planExecute } from './dry-run.js';
 
 export function entityTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_entities: {
       name: 'abp_get_entities',
       description: 'Get all ABP entities, optionally filtered by namespace',
+      category: 'entity',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -31,6 +36,10 @@ export function entityTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_entity: {
       name: 'abp_get_entity',
       description: 'Get a specific ABP entity by ID',
+      category: 'entity',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -54,6 +63,12 @@ export function entityTools(apiClient: AbpApiClient): ToolHandlers {
     abp_create_entity: {
       name: 'abp_create_entity',
       description: 'Create a new ABP entity',
+      category: 'entity',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -106,11 +121,18 @@ export function entityTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Entity '${entity.name}' created successfully`,
         };
       },
+      plan: async (args) => planCreate(`entity '${args.namespace}.${args.name}'`, args),
     } as ToolHandler,
 
     abp_generate_crud: {
       name: 'abp_generate_crud',
       description: 'Generate CRUD operations for an ABP entity',
+      category: 'entity',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -145,6 +167,11 @@ export function entityTools(apiClient: AbpApiClient): ToolHandlers {
           message: 'CRUD operations generated successfully',
         };
       },
+      plan: async (args) => {
+        const { entityId, ...options } = args;
+        const entity = await apiClient.getEntity(entityId);
+        return planExecute(`CRUD generation for entity '${entity.name}'`, options, entity);
+      },
     } as ToolHandler,
   };
 } 
\ No newline at end of file
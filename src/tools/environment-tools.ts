@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { EnvironmentManager } from '../config.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+export function environmentTools(environments: EnvironmentManager): ToolHandlers {
+  return {
+    abp_get_environments: {
+      name: 'abp_get_environments',
+      description: 'List the ABP environments (profiles) defined in the config file and which one is active',
+      category: 'environment',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        required: [],
+      },
+      execute: async () => {
+        const profiles = environments.list();
+        return {
+          success: true,
+          data: profiles,
+          active: environments.activeName,
+          configFile: environments.configPath,
+        };
+      },
+    } as ToolHandler,
+
+    abp_switch_environment: {
+      name: 'abp_switch_environment',
+      description: 'Switch the server to another ABP environment (profile) from the config file. Affects every connected client. Changes no ABP data, so it also runs in dry-run mode.',
+      category: 'environment',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          profile: {
+            type: 'string',
+            description: 'Name of the profile to activate (see abp_get_environments)',
+          },
+        },
+        required: ['profile'],
+      },
+      execute: async (args) => {
+        const { profile } = z.object({ profile: z.string() }).parse(args);
+        const previous = environments.activeName;
+        const environment = await environments.switchTo(profile);
+
+        return {
+          success: true,
+          data: environment,
+          previous,
+          message: `Switched from '${previous}' to '${profile}' (${environment.baseUrl})`,
+        };
+      },
+    } as ToolHandler,
+  };
+}
@@ -0,0 +1,402 @@
+import { z } from 'zod';
+import { AbpApiClient, AbpFeatureProviderName } from '../abp-api-client.js';
+import { matchesGlob } from '../config.js';
+import { describeFeatureValueType, FeatureEntry, flattenFeatures, normalizeFeatureValue } from '../features.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planUpdate } from './dry-run.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
+
+const providerProperties = {
+  providerName: {
+    type: 'string',
+    enum: ['E', 'T'],
+    description: '"E" for an edition, "T" for a tenant',
+  },
+  providerKey: {
+    type: 'string',
+    description: 'Edition ID or name, or tenant ID or name',
+  },
+};
+
+const providerSchema = z.object({
+  providerName: z.enum(['E', 'T']),
+  providerKey: z.string(),
+});
+
+const setFeaturesSchema = providerSchema.extend({
+  values: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).refine((values) => Object.keys(values).length > 0, {
+    message: 'At least one feature value is required',
+  }),
+});
+
+interface TenantOverrides {
+  tenant: string;
+  tenantId: string;
+  edition: string | null;
+  overrides: { feature: string; tenantValue: string | null; editionValue: string | null; redundant: boolean }[];
+}
+
+export function featureTools(apiClient: AbpApiClient): ToolHandlers {
+  // Edition and tenant features are keyed by ID; names are resolved for convenience
+  const resolveProviderKey = async (providerName: 'E' | 'T', providerKey?: string): Promise<string> => {
+    if (!providerKey) {
+      throw new Error(`providerKey is required for providerName "${providerName}" (${providerName === 'E' ? 'edition' : 'tenant'} ID or name)`);
+    }
+    return providerName === 'T' ? apiClient.getTenantId(providerKey) : apiClient.getEditionId(providerKey);
+  };
+
+  // Values that apply when the provider has none of its own: the tenant's edition, or the definition defaults
+  const fallbackFeatures = async (providerName: 'E' | 'T', providerKey: string): Promise<FeatureEntry[]> => {
+    const editionId = providerName === 'T' ? (await apiClient.getTenant(providerKey)).editionId : undefined;
+    return flattenFeatures(await apiClient.getFeatures(editionId ? 'E' : 'D', editionId));
+  };
+
+  const planFeatureChange = async (providerName: 'E' | 'T', providerKey: string, after: Record<string, string | null>) => {
+    const current = flattenFeatures(await apiClient.getFeatures(providerName, providerKey));
+    return planUpdate(
+      `features of ${providerName === 'E' ? 'edition' : 'tenant'} ${providerKey}`,
+      async () => Object.fromEntries(current.filter((feature) => feature.name in after).map((feature) => [feature.name, feature.value])),
+      after
+    );
+  };
+
+  return {
+    abp_get_editions: {
+      name: 'abp_get_editions',
+      description: 'Get the SaaS editions with optional filtering, paging and sorting',
+      category: 'feature',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filter: {
+            type: 'string',
+            description: 'Filter editions by name (optional)',
+          },
+          ...pagingProperties,
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const request = pagingSchema.extend({ filter: z.string().optional() }).parse(args);
+        const { items: editions, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getEditions(r), request);
+        return {
+          success: true,
+          data: editions,
+          count: editions.length,
+          totalCount,
+          paging,
+        };
+      },
+    } as ToolHandler,
+
+    abp_get_features: {
+      name: 'abp_get_features',
+      description: 'List the feature definitions with their values for an edition (E), a tenant (T) or the defaults (D), including the accepted value type and which level each value comes from',
+      category: 'feature',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          providerName: {
+            type: 'string',
+            enum: ['E', 'T', 'D'],
+            description: '"E" for an edition, "T" for a tenant, "D" for the default values',
+          },
+          providerKey: {
+            type: 'string',
+            description: 'Edition ID or name, or tenant ID or name (not used for "D")',
+          },
+          nameFilter: {
+            type: 'string',
+            description: 'Glob applied to feature and group names, e.g. "Identity.*" (optional)',
+          },
+        },
+        required: ['providerName'],
+      },
+      execute: async (args) => {
+        const { providerName, providerKey, nameFilter } = z.object({
+          providerName: z.enum(['E', 'T', 'D']),
+          providerKey: z.string().optional(),
+          nameFilter: z.string().optional(),
+        }).parse(args);
+        // The defaults (D) have no provider key
+        const key = providerName === 'D' ? undefined : await resolveProviderKey(providerName, providerKey);
+
+        const features = flattenFeatures(await apiClient.getFeatures(providerName, key))
+          .filter((feature) => !nameFilter || matchesGlob(feature.name, nameFilter) || matchesGlob(feature.groupName, nameFilter));
+        return {
+          success: true,
+          data: features.map((feature) => ({
+            name: feature.name,
+            displayName: feature.displayName,
+            groupName: feature.groupName,
+            parentName: feature.parentName || null,
+            value: feature.value,
+            // D = default, E = edition, T = tenant
+            source: feature.provider?.name || null,
+            accepts: describeFeatureValueType(feature),
+            description: feature.description,
+          })),
+          count: features.length,
+          providerName,
+          providerKey: key || null,
+        };
+      },
+    } as ToolHandler,
+
+    abp_compare_editions: {
+      name: 'abp_compare_editions',
+      description: 'Compare the feature values of SaaS editions side by side',
+      category: 'feature',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          editionIds: {
+            type: 'array',
+            description: 'IDs or names of the editions to compare (default: all editions)',
+            items: { type: 'string' },
+          },
+          nameFilter: {
+            type: 'string',
+            description: 'Glob applied to feature names, e.g. "MyApp.*" (optional)',
+          },
+          onlyDifferences: {
+            type: 'boolean',
+            description: 'Only list features whose value differs between the editions',
+            default: true,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { editionIds, nameFilter, onlyDifferences } = z.object({
+          editionIds: z.array(z.string()).min(1).optional(),
+          nameFilter: z.string().optional(),
+          onlyDifferences: z.boolean().default(true),
+        }).parse(args);
+
+        const editions = editionIds
+          ? await Promise.all(editionIds.map(async (edition) => apiClient.getEdition(await apiClient.getEditionId(edition))))
+          : (await apiClient.getAllPages((r) => apiClient.getEditions(r), {})).items;
+        const valuesByEdition = await Promise.all(editions.map(async (edition) => ({
+          edition: edition.displayName,
+          features: flattenFeatures(await apiClient.getFeatures('E', edition.id)),
+        })));
+
+        const names = [...new Set(valuesByEdition.flatMap(({ features }) => features.map((feature) => feature.name)))]
+          .filter((name) => !nameFilter || matchesGlob(name, nameFilter));
+        const rows = names.map((name) => ({
+          feature: name,
+          values: Object.fromEntries(valuesByEdition.map(({ edition, features }) => [
+            edition,
+            features.find((feature) => feature.name === name)?.value ?? null,
+          ])),
+        }));
+        const differing = rows.filter((row) => new Set(Object.values(row.values)).size > 1);
+
+        return {
+          success: true,
+          data: onlyDifferences ? differing : rows,
+          editions: editions.map((edition) => ({ id: edition.id, displayName: edition.displayName })),
+          featureCount: rows.length,
+          differingFeatures: differing.length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_get_feature_overrides: {
+      name: 'abp_get_feature_overrides',
+      description: 'Show which tenants override the feature values of their edition (or the defaults, for tenants without an edition), as a tenant by feature matrix',
+      category: 'feature',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          tenantFilter: {
+            type: 'string',
+            description: 'Filter tenants by name (optional)',
+          },
+          nameFilter: {
+            type: 'string',
+            description: 'Glob applied to feature and group names (optional)',
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { tenantFilter, nameFilter } = z.object({
+          tenantFilter: z.string().optional(),
+          nameFilter: z.string().optional(),
+        }).parse(args);
+
+        const tenants = await apiClient.getAllPages((r) => apiClient.getTenants(r), { filter: tenantFilter });
+        const baselines = new Map<string, Promise<FeatureEntry[]>>();
+        const baselineOf = (editionId?: string) => {
+          const key = editionId || '';
+          if (!baselines.has(key)) {
+            baselines.set(key, apiClient.getFeatures(editionId ? 'E' : 'D', editionId).then(flattenFeatures));
+          }
+          return baselines.get(key)!;
+        };
+
+        const rows: TenantOverrides[] = [];
+        for (const tenant of tenants.items) {
+          const [features, baseline] = await Promise.all([
+            apiClient.getFeatures('T', tenant.id).then(flattenFeatures),
+            baselineOf(tenant.editionId),
+          ]);
+          const overrides = features
+            .filter((feature) => feature.provider?.name === 'T')
+            .filter((feature) => !nameFilter || matchesGlob(feature.name, nameFilter) || matchesGlob(feature.groupName, nameFilter))
+            .map((feature) => {
+              const baselineValue = baseline.find((candidate) => candidate.name === feature.name)?.value ?? null;
+              return { feature: feature.name, tenantValue: feature.value, editionValue: baselineValue, redundant: feature.value === baselineValue };
+            });
+          if (overrides.length > 0) {
+            rows.push({ tenant: tenant.name, tenantId: tenant.id, edition: tenant.editionDisplayName || tenant.editionId || null, overrides });
+          }
+        }
+
+        const overriddenFeatures = [...new Set(rows.flatMap((row) => row.overrides.map((override) => override.feature)))].sort();
+        return {
+          success: true,
+          data: rows,
+          // tenant -> feature -> "tenant value (edition value)"; empty cells follow the edition
+          matrix: Object.fromEntries(rows.map((row) => [
+            row.tenant,
+            Object.fromEntries(row.overrides.map((override) => [override.feature, `${override.tenantValue} (${override.editionValue})`])),
+          ])),
+          features: overriddenFeatures.map((feature) => ({
+            feature,
+            tenants: rows.filter((row) => row.overrides.some((override) => override.feature === feature)).length,
+          })),
+          tenantsChecked: tenants.items.length,
+          tenantsWithOverrides: rows.length,
+          warnings: tenants.truncated ? ['Not every tenant was checked; pass tenantFilter'] : [],
+        };
+      },
+    } as ToolHandler,
+
+    abp_set_features: {
+      name: 'abp_set_features',
+      description: 'Set feature values for an edition or a tenant; each value is checked against the feature\'s value type (toggle, selection, numeric range, text length or pattern) before anything is saved',
+      category: 'feature',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          ...providerProperties,
+          values: {
+            type: 'object',
+            description: 'Feature values keyed by feature name, e.g. { "Identity.TwoFactor": true, "MyApp.MaxProjectCount": 10 }',
+            additionalProperties: {
+              type: ['string', 'number', 'boolean', 'null'],
+            },
+          },
+        },
+        required: ['providerName', 'providerKey', 'values'],
+      },
+      execute: async (args) => {
+        const { providerName, providerKey, values } = setFeaturesSchema.parse(args);
+        const key = await resolveProviderKey(providerName, providerKey);
+        const normalized = await validateValues(apiClient, providerName, key, values);
+
+        await apiClient.updateFeatures(providerName, key, Object.entries(normalized).map(([name, value]) => ({ name, value })));
+        return {
+          success: true,
+          data: normalized,
+          message: `${Object.keys(normalized).length} features updated for ${providerName === 'E' ? 'edition' : 'tenant'} ${providerKey}`,
+        };
+      },
+      plan: async (args) => {
+        const { providerName, providerKey, values } = setFeaturesSchema.parse(args);
+        const key = await resolveProviderKey(providerName, providerKey);
+        return planFeatureChange(providerName, key, await validateValues(apiClient, providerName, key, values));
+      },
+    } as ToolHandler,
+
+    abp_reset_features: {
+      name: 'abp_reset_features',
+      description: 'Remove the feature values set on an edition or a tenant, so the edition values (for tenants) or the defaults apply again',
+      category: 'feature',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: providerProperties,
+        required: ['providerName', 'providerKey'],
+      },
+      execute: async (args) => {
+        const { providerName, providerKey } = providerSchema.parse(args);
+        const key = await resolveProviderKey(providerName, providerKey);
+        await apiClient.resetFeatures(providerName, key);
+        return {
+          success: true,
+          message: `Feature values of ${providerName === 'E' ? 'edition' : 'tenant'} ${providerKey} reset`,
+        };
+      },
+      plan: async (args) => {
+        const { providerName, providerKey } = providerSchema.parse(args);
+        const key = await resolveProviderKey(providerName, providerKey);
+        const [current, fallback] = await Promise.all([
+          apiClient.getFeatures(providerName, key).then(flattenFeatures),
+          fallbackFeatures(providerName, key),
+        ]);
+        const own = current.filter((feature) => feature.provider?.name === providerName);
+        return planFeatureChange(
+          providerName,
+          key,
+          Object.fromEntries(own.map((feature) => [feature.name, fallback.find((candidate) => candidate.name === feature.name)?.value ?? null]))
+        );
+      },
+    } as ToolHandler,
+  };
+}
+
+// Every value is checked before any is saved, so a typo does not leave half of the features updated
+async function validateValues(
+  apiClient: AbpApiClient,
+  providerName: 'E' | 'T',
+  providerKey: string,
+  values: Record<string, unknown>
+): Promise<Record<string, string | null>> {
+  const features = flattenFeatures(await apiClient.getFeatures(providerName, providerKey));
+  const errors: string[] = [];
+  const normalized: Record<string, string | null> = {};
+
+  Object.entries(values).forEach(([name, value]) => {
+    const feature = features.find((candidate) => candidate.name === name);
+    if (!feature) {
+      errors.push(`Unknown feature '${name}'`);
+      return;
+    }
+    try {
+      normalized[name] = normalizeFeatureValue(feature, value);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Feature values were not saved:\n- ${errors.join('\n- ')}`);
+  }
+  return normalized;
+}
\ No newline at end of file
@@ -1,18 +1,34 @@
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planExecute } from './dry-run.js';
 
-// Check if we're in info-only mode (no API key provided)
+// Check if we're in info-only mode (no API key or OAuth client configured)
 const isInfoOnlyMode = (apiClient: AbpApiClient): boolean => {
-  return !apiClient || !(apiClient as any).config?.apiKey;
+  return !apiClient || !apiClient.hasCredentials();
 };
 
+// Static templates only return text; with credentials the ABP Suite generator writes files. The hints are getters,
+// so the tool list and the --read-only filter see the mode the client is in
+const generatorAnnotations = (apiClient: AbpApiClient): ToolAnnotations => ({
+  get readOnlyHint() {
+    return isInfoOnlyMode(apiClient);
+  },
+  destructiveHint: false,
+  get idempotentHint() {
+    return isInfoOnlyMode(apiClient);
+  },
+});
+
 export function hybridUiTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     // Component Generation - Works in both modes
     abp_generate_component: {
       name: 'abp_generate_component',
       description: 'Generate reusable UI components (widgets, modals, partials, directives, pipes) - Works in info-only mode with static templates',
+      category: 'ui',
+      annotations: generatorAnnotations(apiClient),
       inputSchema: {
         type: 'object',
         properties: {
@@ -90,12 +106,20 @@ export function hybridUiTools(apiClient: AbpApiClient): ToolHandlers {
           }
         }
       },
+      // Static templates change nothing, so they are generated even in dry-run mode
+      plan: async (args) => isInfoOnlyMode(apiClient)
+        ? undefined
+        : planExecute(`${args.type} component '${args.name}' (${args.framework})`, args),
     } as ToolHandler,
 
     // Theme Information - Works in both modes
     abp_get_themes: {
       name: 'abp_get_themes',
       description: 'Get available ABP themes - Works in info-only mode with theme information',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -128,6 +152,8 @@ export function hybridUiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_generate_form: {
       name: 'abp_generate_form',
       description: 'Generate complex forms with validation - Works in info-only mode with static templates',
+      category: 'ui',
+      annotations: generatorAnnotations(apiClient),
       inputSchema: {
         type: 'object',
         properties: {
@@ -244,12 +270,17 @@ export function hybridUiTools(apiClient: AbpApiClient): ToolHandlers {
           }
         }
       },
+      plan: async (args) => isInfoOnlyMode(apiClient) ? undefined : planExecute(`form '${args.name}'`, args),
     } as ToolHandler,
 
     // UI Examples - Info-only mode specialized tool
     abp_get_ui_examples: {
       name: 'abp_get_ui_examples',
       description: 'Get UI code examples and snippets for different frameworks',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
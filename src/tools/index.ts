@@ -1,37 +1,89 @@
+import { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
 import { AbpApiClient } from '../abp-api-client.js';
 import { applicationTools } from './application-tools.js';
 import { moduleTools } from './module-tools.js';
 import { entityTools } from './entity-tools.js';
 import { userTools } from './user-tools.js';
+import { userAccountTools } from './user-account-tools.js';
+import { roleTools } from './role-tools.js';
+import { organizationUnitTools } from './organization-unit-tools.js';
 import { tenantTools } from './tenant-tools.js';
+import { featureTools } from './feature-tools.js';
 import { permissionTools } from './permission-tools.js';
 import { auditTools } from './audit-tools.js';
+import { securityLogTools } from './security-log-tools.js';
 import { backgroundJobTools } from './background-job-tools.js';
 import { uiTools } from './ui-tools.js';
 import { infoTools } from './info-tools.js';
 import { hybridUiTools } from './hybrid-ui-tools.js';
+import { diagnosticsTools } from './diagnostics-tools.js';
+import { appConfigurationTools } from './app-configuration-tools.js';
+import { apiDiscoveryTools } from './api-discovery-tools.js';
+import { ToolPlan } from './dry-run.js';
+import { hostScoped, tenantScoped } from './tenant-scope.js';
+
+export type ToolCategory =
+  | 'application'
+  | 'module'
+  | 'entity'
+  | 'user'
+  | 'role'
+  | 'organization-unit'
+  | 'tenant'
+  | 'feature'
+  | 'permission'
+  | 'audit'
+  | 'security'
+  | 'background-job'
+  | 'ui'
+  | 'info'
+  | 'environment'
+  | 'journal'
+  | 'diagnostics'
+  | 'configuration'
+  | 'api'
+  | 'app-service';
 
 export interface ToolHandler {
   name: string;
   description: string;
+  category: ToolCategory;
+  // MCP tool annotations; only tools with readOnlyHint are exposed in --read-only mode
+  annotations: ToolAnnotations;
   inputSchema: any;
   execute: (args: any) => Promise<any>;
+  // Mutating tools: compute what execute would change from the current state, without changing it;
+  // undefined when these particular arguments change no data, so the call runs even in dry-run mode
+  plan?: (args: any) => Promise<ToolPlan | undefined>;
+  // Destructive tools that only run when called again with the token from a preview call
+  requiresConfirmation?: boolean;
+  // Tools that never call the ABP API (static information, the local journal, environment profiles),
+  // so they also run when no ABP credentials are configured
+  localOnly?: boolean;
 }
 
 export type ToolHandlers = Record<string, ToolHandler>;
 
 export function abpTools(apiClient: AbpApiClient): ToolHandlers {
   return {
-    ...applicationTools(apiClient),
-    ...moduleTools(apiClient),
-    ...entityTools(apiClient),
-    ...userTools(apiClient),
-    ...tenantTools(apiClient),
-    ...permissionTools(apiClient),
-    ...auditTools(apiClient),
-    ...backgroundJobTools(apiClient),
-    ...uiTools(apiClient),
+    ...tenantScoped(apiClient, applicationTools(apiClient)),
+    ...tenantScoped(apiClient, moduleTools(apiClient)),
+    ...tenantScoped(apiClient, entityTools(apiClient)),
+    ...tenantScoped(apiClient, userTools(apiClient)),
+    ...tenantScoped(apiClient, userAccountTools(apiClient)),
+    ...tenantScoped(apiClient, roleTools(apiClient)),
+    ...tenantScoped(apiClient, organizationUnitTools(apiClient)),
+    ...hostScoped(apiClient, tenantTools(apiClient)),
+    ...hostScoped(apiClient, featureTools(apiClient)),
+    ...tenantScoped(apiClient, permissionTools(apiClient)),
+    ...tenantScoped(apiClient, auditTools(apiClient)),
+    ...tenantScoped(apiClient, securityLogTools(apiClient)),
+    ...tenantScoped(apiClient, backgroundJobTools(apiClient)),
+    ...tenantScoped(apiClient, uiTools(apiClient)),
     ...infoTools(apiClient),
-    ...hybridUiTools(apiClient),
+    ...tenantScoped(apiClient, hybridUiTools(apiClient)),
+    ...diagnosticsTools(apiClient),
+    ...tenantScoped(apiClient, appConfigurationTools(apiClient)),
+    ...tenantScoped(apiClient, apiDiscoveryTools(apiClient)),
   };
 } 
\ No newline at end of file
@@ -8,6 +8,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_info: {
       name: 'abp_get_info',
       description: 'Get general information about the ABP Framework and its capabilities',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -62,6 +67,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_documentation: {
       name: 'abp_get_documentation',
       description: 'Get links to official ABP documentation and learning resources',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -162,6 +172,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_help: {
       name: 'abp_get_help',
       description: 'Get help and usage information for the ABP MCP Server',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -303,6 +318,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_list_available_modules: {
       name: 'abp_list_available_modules',
       description: 'List all available ABP modules with descriptions and categories',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -380,6 +400,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_list_ui_frameworks: {
       name: 'abp_list_ui_frameworks',
       description: 'List supported UI frameworks and their capabilities',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -459,6 +484,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_list_database_providers: {
       name: 'abp_list_database_providers',
       description: 'List supported database providers and their configurations',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -534,6 +564,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_cli_commands: {
       name: 'abp_get_cli_commands',
       description: 'Get information about ABP CLI commands and usage',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -661,6 +696,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_best_practices: {
       name: 'abp_get_best_practices',
       description: 'Get ABP development best practices and guidelines',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -782,6 +822,11 @@ export function infoTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_troubleshooting_guide: {
       name: 'abp_get_troubleshooting_guide',
       description: 'Get troubleshooting guide for common ABP issues',
+      category: 'info',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -0,0 +1,63 @@
+import { z } from 'zod';
+import { MAX_JOURNAL_QUERY_RESULTS, ToolJournal } from '../journal.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+export function journalTools(journal: ToolJournal): ToolHandlers {
+  return {
+    abp_get_mcp_journal: {
+      name: 'abp_get_mcp_journal',
+      description: 'Query the local journal of tool calls made through this MCP server (newest first), by time range, tool and outcome',
+      category: 'journal',
+      localOnly: true,
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          from: {
+            type: 'string',
+            description: 'Only calls at or after this ISO 8601 timestamp (optional)',
+          },
+          to: {
+            type: 'string',
+            description: 'Only calls at or before this ISO 8601 timestamp (optional)',
+          },
+          tool: {
+            type: 'string',
+            description: 'Tool name or glob pattern, e.g. "abp_delete_*" (optional)',
+          },
+          outcome: {
+            type: 'string',
+            enum: ['success', 'error'],
+            description: 'Only successful or only failed calls (optional)',
+          },
+          limit: {
+            type: 'number',
+            description: `Maximum number of entries to return (default 100, max ${MAX_JOURNAL_QUERY_RESULTS})`,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const query = z.object({
+          from: z.string().optional(),
+          to: z.string().optional(),
+          tool: z.string().optional(),
+          outcome: z.enum(['success', 'error']).optional(),
+          limit: z.number().int().min(1).max(MAX_JOURNAL_QUERY_RESULTS).optional(),
+        }).parse(args);
+
+        const result = await journal.query(query);
+        return {
+          success: true,
+          data: result.entries,
+          count: result.entries.length,
+          totalCount: result.totalCount,
+          truncated: result.truncated,
+          journal: journal.path,
+        };
+      },
+    } as ToolHandler,
+  };
+}
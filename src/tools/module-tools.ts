@@ -1,12 +1,17 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete } from './dry-run.js';
 
 export function moduleTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_modules: {
       name: 'abp_get_modules',
       description: 'Get all ABP modules',
+      category: 'module',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -27,6 +32,10 @@ export function moduleTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_module: {
       name: 'abp_get_module',
       description: 'Get a specific ABP module by ID',
+      category: 'module',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -50,6 +59,12 @@ export function moduleTools(apiClient: AbpApiClient): ToolHandlers {
     abp_install_module: {
       name: 'abp_install_module',
       description: 'Install an ABP module by package name',
+      category: 'module',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -85,11 +100,30 @@ export function moduleTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Module '${module.displayName}' installed successfully`,
         };
       },
+      plan: async (args) => {
+        const { packageName, version, includePrerelease } = z.object({
+          packageName: z.string(),
+          version: z.string().optional(),
+          includePrerelease: z.boolean().default(false),
+        }).parse(args);
+        const installed = (await apiClient.getModules()).find(m => m.packageName === packageName && m.isInstalled);
+        return planCreate(
+          `module '${packageName}'`,
+          { packageName, version, includePrerelease },
+          installed ? [`Module '${packageName}' is already installed (version ${installed.version})`] : undefined
+        );
+      },
     } as ToolHandler,
 
     abp_uninstall_module: {
       name: 'abp_uninstall_module',
       description: 'Uninstall an ABP module',
+      category: 'module',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -109,11 +143,19 @@ export function moduleTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Module uninstalled successfully`,
         };
       },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planDelete(`module ${id}`, () => apiClient.getModule(id));
+      },
     } as ToolHandler,
 
     abp_get_popular_modules: {
       name: 'abp_get_popular_modules',
       description: 'Get list of popular ABP modules with descriptions',
+      category: 'module',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -0,0 +1,462 @@
+import { z } from 'zod';
+import { AbpApiClient, AbpUser } from '../abp-api-client.js';
+import {
+  buildOrganizationUnitTree,
+  OrganizationUnitNode,
+  organizationUnitPath,
+  organizationUnitSubtree,
+} from '../organization-units.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planUpdate } from './dry-run.js';
+
+const idProperty = {
+  type: 'string',
+  description: 'The organization unit ID',
+};
+
+const moveSchema = z.object({
+  id: z.string(),
+  newParentId: z.string().nullable().default(null),
+});
+
+const membersSchema = z.object({
+  id: z.string(),
+  userIds: z.array(z.string()).min(1),
+});
+
+const rolesSchema = z.object({
+  id: z.string(),
+  roleIds: z.array(z.string()).min(1),
+});
+
+export function organizationUnitTools(apiClient: AbpApiClient): ToolHandlers {
+  const memberIds = async (id: string): Promise<string[]> =>
+    (await apiClient.getAllPages((r) => apiClient.getOrganizationUnitMembers(id, r), {})).items.map((user) => user.id);
+  const roleIds = async (id: string): Promise<string[]> =>
+    (await apiClient.getAllPages((r) => apiClient.getOrganizationUnitRoles(id, r), {})).items.map((role) => role.id);
+
+  // Guards against moving a unit below itself, which would detach the subtree from the hierarchy
+  const checkMove = async ({ id, newParentId }: z.infer<typeof moveSchema>) => {
+    const units = await apiClient.getAllOrganizationUnits();
+    const subtree = organizationUnitSubtree(units, id);
+    if (newParentId && subtree.some((unit) => unit.id === newParentId)) {
+      throw new Error(`Cannot move '${subtree[0].displayName}' below itself or one of its sub-units`);
+    }
+    if (newParentId && !units.some((unit) => unit.id === newParentId)) {
+      throw new Error(`Organization unit ${newParentId} not found`);
+    }
+    return { units, unit: subtree[0] };
+  };
+
+  return {
+    abp_get_organization_unit_tree: {
+      name: 'abp_get_organization_unit_tree',
+      description: 'Show the ABP organization unit hierarchy as a tree, optionally starting at one unit and with member and role counts',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          rootId: {
+            type: 'string',
+            description: 'Only show this unit and its sub-units (optional)',
+          },
+          includeCounts: {
+            type: 'boolean',
+            description: 'Add the number of direct members and roles of each unit (one request per unit)',
+            default: false,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { rootId, includeCounts } = z.object({
+          rootId: z.string().optional(),
+          includeCounts: z.boolean().default(false),
+        }).parse(args);
+
+        const units = await apiClient.getAllOrganizationUnits();
+        const tree = buildOrganizationUnitTree(units, rootId);
+        const nodes = flatten(tree);
+
+        const counts: Record<string, { members: number; roles: number }> = {};
+        if (includeCounts) {
+          for (const { node } of nodes) {
+            const [members, roles] = await Promise.all([
+              apiClient.getOrganizationUnitMembers(node.id, { maxResultCount: 1 }),
+              apiClient.getOrganizationUnitRoles(node.id, { maxResultCount: 1 }),
+            ]);
+            counts[node.id] = { members: members.totalCount, roles: roles.totalCount };
+          }
+        }
+
+        return {
+          success: true,
+          data: tree,
+          count: nodes.length,
+          outline: nodes
+            .map(({ node, depth }) => `${'  '.repeat(depth)}${node.displayName} (${node.code})${counts[node.id] ? ` - ${counts[node.id].members} members, ${counts[node.id].roles} roles` : ''}`)
+            .join('\n'),
+          counts: includeCounts ? counts : undefined,
+        };
+      },
+    } as ToolHandler,
+
+    abp_create_organization_unit: {
+      name: 'abp_create_organization_unit',
+      description: 'Create an ABP organization unit at the root or below a parent unit',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          displayName: {
+            type: 'string',
+            description: 'The unit name',
+          },
+          parentId: {
+            type: 'string',
+            description: 'The parent unit ID (optional, defaults to the root)',
+          },
+        },
+        required: ['displayName'],
+      },
+      execute: async (args) => {
+        const unit = await apiClient.createOrganizationUnit(z.object({
+          displayName: z.string().min(1),
+          parentId: z.string().optional(),
+        }).parse(args));
+        return {
+          success: true,
+          data: unit,
+          message: `Organization unit '${unit.displayName}' created successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { displayName, parentId } = z.object({ displayName: z.string(), parentId: z.string().optional() }).parse(args);
+        const units = await apiClient.getAllOrganizationUnits();
+        const parent = parentId ? units.find((unit) => unit.id === parentId) : undefined;
+        if (parentId && !parent) {
+          throw new Error(`Organization unit ${parentId} not found`);
+        }
+        return planCreate(`organization unit '${parent ? `${organizationUnitPath(units, parent)} / ` : ''}${displayName}'`, { displayName, parentId: parentId || null });
+      },
+    } as ToolHandler,
+
+    abp_move_organization_unit: {
+      name: 'abp_move_organization_unit',
+      description: 'Move an ABP organization unit, with its sub-units, below another unit or to the root',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          newParentId: {
+            type: ['string', 'null'],
+            description: 'The new parent unit ID, or null to move the unit to the root',
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const request = moveSchema.parse(args);
+        const { unit } = await checkMove(request);
+        await apiClient.moveOrganizationUnit(request.id, request.newParentId);
+        return {
+          success: true,
+          message: `Organization unit '${unit.displayName}' moved ${request.newParentId ? `below ${request.newParentId}` : 'to the root'}`,
+        };
+      },
+      plan: async (args) => {
+        const request = moveSchema.parse(args);
+        const { units, unit } = await checkMove(request);
+        const newParent = units.find((candidate) => candidate.id === request.newParentId);
+        const plan = await planUpdate(
+          `organization unit '${unit.displayName}'`,
+          async () => ({ parentId: unit.parentId || null, path: organizationUnitPath(units, unit) }),
+          { parentId: request.newParentId, path: newParent ? `${organizationUnitPath(units, newParent)} / ${unit.displayName}` : unit.displayName }
+        );
+        const subUnits = organizationUnitSubtree(units, unit.id).length - 1;
+        return subUnits > 0 ? { ...plan, warnings: [...(plan.warnings || []), `${subUnits} sub-units move along`] } : plan;
+      },
+    } as ToolHandler,
+
+    abp_delete_organization_unit: {
+      name: 'abp_delete_organization_unit',
+      description: 'Delete an ABP organization unit together with its sub-units; members and roles are detached',
+      category: 'organization-unit',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        await apiClient.deleteOrganizationUnit(id);
+        return {
+          success: true,
+          message: `Organization unit deleted successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        const units = await apiClient.getAllOrganizationUnits();
+        const subtree = organizationUnitSubtree(units, id);
+        const plan = await planDelete(`organization unit '${organizationUnitPath(units, subtree[0])}'`, async () => subtree[0]);
+        const { totalCount: members } = await apiClient.getOrganizationUnitMembers(id, { maxResultCount: 1 });
+        const warnings = [
+          ...(subtree.length > 1 ? [`${subtree.length - 1} sub-units are deleted too: ${subtree.slice(1).map((unit) => unit.displayName).join(', ')}`] : []),
+          ...(members > 0 ? [`${members} direct members lose the unit and the roles it grants`] : []),
+        ];
+        return warnings.length > 0 ? { ...plan, warnings } : plan;
+      },
+    } as ToolHandler,
+
+    abp_get_organization_unit_users: {
+      name: 'abp_get_organization_unit_users',
+      description: 'List the effective users of an ABP organization unit: its direct members and, by default, the members of all its sub-units',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          includeSubUnits: {
+            type: 'boolean',
+            description: 'Include the members of every unit below this one',
+            default: true,
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id, includeSubUnits } = z.object({ id: z.string(), includeSubUnits: z.boolean().default(true) }).parse(args);
+        const units = await apiClient.getAllOrganizationUnits();
+        const scope = includeSubUnits ? organizationUnitSubtree(units, id) : organizationUnitSubtree(units, id).slice(0, 1);
+
+        // Users in several of the units are listed once, with every unit they belong to
+        const users = new Map<string, { user: AbpUser; organizationUnits: string[] }>();
+        let directMembers = 0;
+        let truncated = false;
+        for (const unit of scope) {
+          const members = await apiClient.getAllPages((r) => apiClient.getOrganizationUnitMembers(unit.id, r), {});
+          directMembers = unit === scope[0] ? members.totalCount : directMembers;
+          truncated = truncated || members.truncated;
+          members.items.forEach((user) => {
+            const entry = users.get(user.id) ?? { user, organizationUnits: [] };
+            entry.organizationUnits.push(organizationUnitPath(units, unit));
+            users.set(user.id, entry);
+          });
+        }
+
+        return {
+          success: true,
+          data: [...users.values()].map(({ user, organizationUnits }) => ({ ...user, organizationUnits })),
+          count: users.size,
+          directMembers,
+          unitsSearched: scope.length,
+          truncated,
+        };
+      },
+    } as ToolHandler,
+
+    abp_add_organization_unit_members: {
+      name: 'abp_add_organization_unit_members',
+      description: 'Add users to an ABP organization unit; they also get the roles assigned to the unit',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          userIds: {
+            type: 'array',
+            description: 'IDs of the users to add',
+            items: { type: 'string' },
+          },
+        },
+        required: ['id', 'userIds'],
+      },
+      execute: async (args) => {
+        const { id, userIds } = membersSchema.parse(args);
+        await apiClient.addOrganizationUnitMembers(id, userIds);
+        return {
+          success: true,
+          message: `${userIds.length} users added to the organization unit`,
+        };
+      },
+      plan: async (args) => {
+        const { id, userIds } = membersSchema.parse(args);
+        const current = await memberIds(id);
+        return planUpdate(`members of organization unit ${id}`, async () => ({ userIds: current }), { userIds: [...new Set([...current, ...userIds])] });
+      },
+    } as ToolHandler,
+
+    abp_remove_organization_unit_members: {
+      name: 'abp_remove_organization_unit_members',
+      description: 'Remove users from an ABP organization unit; they lose the roles they got through the unit',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          userIds: {
+            type: 'array',
+            description: 'IDs of the users to remove',
+            items: { type: 'string' },
+          },
+        },
+        required: ['id', 'userIds'],
+      },
+      execute: async (args) => {
+        const { id, userIds } = membersSchema.parse(args);
+        for (const userId of userIds) {
+          await apiClient.removeOrganizationUnitMember(id, userId);
+        }
+        return {
+          success: true,
+          message: `${userIds.length} users removed from the organization unit`,
+        };
+      },
+      plan: async (args) => {
+        const { id, userIds } = membersSchema.parse(args);
+        const current = await memberIds(id);
+        return planUpdate(`members of organization unit ${id}`, async () => ({ userIds: current }), { userIds: current.filter((userId) => !userIds.includes(userId)) });
+      },
+    } as ToolHandler,
+
+    abp_get_organization_unit_roles: {
+      name: 'abp_get_organization_unit_roles',
+      description: 'List the roles assigned to an ABP organization unit, which every member of the unit holds',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        const { items: roles } = await apiClient.getAllPages((r) => apiClient.getOrganizationUnitRoles(id, r), {});
+        return {
+          success: true,
+          data: roles,
+          count: roles.length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_add_organization_unit_roles: {
+      name: 'abp_add_organization_unit_roles',
+      description: 'Assign roles to an ABP organization unit; every member of the unit gets them',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          roleIds: {
+            type: 'array',
+            description: 'IDs of the roles to assign',
+            items: { type: 'string' },
+          },
+        },
+        required: ['id', 'roleIds'],
+      },
+      execute: async (args) => {
+        const { id, roleIds: ids } = rolesSchema.parse(args);
+        await apiClient.addOrganizationUnitRoles(id, ids);
+        return {
+          success: true,
+          message: `${ids.length} roles assigned to the organization unit`,
+        };
+      },
+      plan: async (args) => {
+        const { id, roleIds: ids } = rolesSchema.parse(args);
+        const current = await roleIds(id);
+        return planUpdate(`roles of organization unit ${id}`, async () => ({ roleIds: current }), { roleIds: [...new Set([...current, ...ids])] });
+      },
+    } as ToolHandler,
+
+    abp_remove_organization_unit_roles: {
+      name: 'abp_remove_organization_unit_roles',
+      description: 'Remove roles from an ABP organization unit; its members lose them unless assigned otherwise',
+      category: 'organization-unit',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          roleIds: {
+            type: 'array',
+            description: 'IDs of the roles to remove',
+            items: { type: 'string' },
+          },
+        },
+        required: ['id', 'roleIds'],
+      },
+      execute: async (args) => {
+        const { id, roleIds: ids } = rolesSchema.parse(args);
+        for (const roleId of ids) {
+          await apiClient.removeOrganizationUnitRole(id, roleId);
+        }
+        return {
+          success: true,
+          message: `${ids.length} roles removed from the organization unit`,
+        };
+      },
+      plan: async (args) => {
+        const { id, roleIds: ids } = rolesSchema.parse(args);
+        const current = await roleIds(id);
+        return planUpdate(`roles of organization unit ${id}`, async () => ({ roleIds: current }), { roleIds: current.filter((roleId) => !ids.includes(roleId)) });
+      },
+    } as ToolHandler,
+  };
+}
+
+// Depth-first list of the tree's nodes with their depth, for the outline
+function flatten(nodes: OrganizationUnitNode[], depth = 0): { node: OrganizationUnitNode; depth: number }[] {
+  return nodes.flatMap((node) => [{ node, depth }, ...flatten(node.children, depth + 1)]);
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { AbpApiClient, MAX_ALL_PAGES_ITEMS, MAX_PAGE_SIZE, PagedRequest, PagedResult } from '../abp-api-client.js';
+
+// JSON Schema properties shared by every list tool
+export const pagingProperties = {
+  skipCount: {
+    type: 'number',
+    description: 'Number of items to skip (optional, for paging)',
+  },
+  maxResultCount: {
+    type: 'number',
+    description: `Maximum number of items to return per page (optional, max ${MAX_PAGE_SIZE})`,
+  },
+  sorting: {
+    type: 'string',
+    description: 'Sorting expression, e.g. "creationTime desc" (optional)',
+  },
+  all: {
+    type: 'boolean',
+    description: `Fetch every page automatically (stops after ${MAX_ALL_PAGES_ITEMS} items)`,
+    default: false,
+  },
+};
+
+export const pagingSchema = z.object({
+  skipCount: z.number().int().min(0).optional(),
+  maxResultCount: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+  sorting: z.string().optional(),
+  all: z.boolean().default(false),
+});
+
+export interface PagedToolResult<T> {
+  items: T[];
+  totalCount: number;
+  paging: {
+    skipCount: number;
+    maxResultCount?: number;
+    sorting?: string;
+    hasMore: boolean;
+    pages?: number;
+    truncated?: boolean;
+  };
+}
+
+// Fetches a single page, or every page when `all` is set
+export async function fetchPaged<T, R extends PagedRequest>(
+  apiClient: AbpApiClient,
+  fetchPage: (request: R) => Promise<PagedResult<T>>,
+  request: R & { all?: boolean }
+): Promise<PagedToolResult<T>> {
+  const { all, ...pageRequest } = request;
+  const skipCount = pageRequest.skipCount || 0;
+
+  if (all) {
+    const result = await apiClient.getAllPages(fetchPage, pageRequest as R);
+    return {
+      items: result.items,
+      totalCount: result.totalCount,
+      paging: {
+        skipCount,
+        sorting: pageRequest.sorting,
+        hasMore: result.truncated,
+        pages: result.pages,
+        truncated: result.truncated,
+      },
+    };
+  }
+
+  const result = await fetchPage(pageRequest as R);
+  return {
+    items: result.items,
+    totalCount: result.totalCount,
+    paging: {
+      skipCount,
+      maxResultCount: pageRequest.maxResultCount,
+      sorting: pageRequest.sorting,
+      hasMore: skipCount + result.items.length < result.totalCount,
+    },
+  };
+}
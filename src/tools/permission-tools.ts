@@ -1,12 +1,18 @@
 import { z } from 'zod';
-import { AbpApiClient } from '../abp-api-client.js';
+import { AbpApiClient, AbpPermission } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { diffFields, ToolPlan } from './dry-run.js';
+import { organizationUnitRoleSources } from '../organization-units.js';
 
 export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_permissions: {
       name: 'abp_get_permissions',
       description: 'Get ABP permissions with optional provider filtering',
+      category: 'permission',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -18,19 +24,28 @@ export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'Provider key (e.g., role name or user ID)',
           },
+          includeSources: {
+            type: 'boolean',
+            description: 'For a user (providerName "U"), list the roles each granted permission comes from and the organization units those roles are held through',
+            default: false,
+          },
         },
         required: [],
       },
       execute: async (args) => {
-        const { providerName, providerKey } = z.object({
+        const { providerName, providerKey, includeSources } = z.object({
           providerName: z.string().optional(),
           providerKey: z.string().optional(),
+          includeSources: z.boolean().default(false),
         }).parse(args);
+        if (includeSources && (providerName !== 'U' || !providerKey)) {
+          throw new Error('includeSources requires providerName "U" and the user ID as providerKey');
+        }
         
         const permissions = await apiClient.getPermissions(providerName, providerKey);
         return {
           success: true,
-          data: permissions,
+          data: includeSources ? await withSources(apiClient, providerKey!, permissions) : permissions,
           count: permissions.length,
           groups: [...new Set(permissions.map(p => p.groupName))],
         };
@@ -40,6 +55,10 @@ export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_permissions_by_group: {
       name: 'abp_get_permissions_by_group',
       description: 'Get ABP permissions by group name',
+      category: 'permission',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -65,6 +84,12 @@ export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
     abp_grant_permission: {
       name: 'abp_grant_permission',
       description: 'Grant a permission to a user or role',
+      category: 'permission',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -97,11 +122,26 @@ export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Permission '${permissionName}' granted to ${providerName === 'R' ? 'role' : 'user'} '${providerKey}'`,
         };
       },
+      plan: async (args) => {
+        const { providerName, providerKey, permissionName } = z.object({
+          providerName: z.enum(['R', 'U']),
+          providerKey: z.string(),
+          permissionName: z.string(),
+        }).parse(args);
+
+        return planPermissionChange(apiClient, providerName, providerKey, permissionName, true);
+      },
     } as ToolHandler,
 
     abp_revoke_permission: {
       name: 'abp_revoke_permission',
       description: 'Revoke a permission from a user or role',
+      category: 'permission',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -134,6 +174,63 @@ export function permissionTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Permission '${permissionName}' revoked from ${providerName === 'R' ? 'role' : 'user'} '${providerKey}'`,
         };
       },
+      plan: async (args) => {
+        const { providerName, providerKey, permissionName } = z.object({
+          providerName: z.enum(['R', 'U']),
+          providerKey: z.string(),
+          permissionName: z.string(),
+        }).parse(args);
+
+        return planPermissionChange(apiClient, providerName, providerKey, permissionName, false);
+      },
     } as ToolHandler,
   };
-} 
\ No newline at end of file
+}
+
+async function planPermissionChange(
+  apiClient: AbpApiClient,
+  providerName: 'R' | 'U',
+  providerKey: string,
+  permissionName: string,
+  grant: boolean
+): Promise<ToolPlan> {
+  const permissions = await apiClient.getPermissions(providerName, providerKey);
+  const current = permissions.find(p => p.name === permissionName);
+  const isGranted = !!current && current.isGranted !== false;
+  const before = { permissionName, isGranted };
+  const after = { permissionName, isGranted: grant };
+
+  return {
+    action: 'update',
+    target: `${providerName === 'R' ? 'role' : 'user'} '${providerKey}'`,
+    before,
+    after,
+    changes: diffFields(before, after),
+    warnings: isGranted === grant
+      ? [`Permission '${permissionName}' is already ${grant ? 'granted' : 'not granted'}`]
+      : undefined,
+  };
+}
+
+// Adds the roles granting each of the user's permissions; an empty list means the permission is granted to the user directly
+async function withSources(apiClient: AbpApiClient, userId: string, permissions: AbpPermission[]) {
+  const [roles, organizationUnitRoles] = await Promise.all([
+    apiClient.getUserRoles(userId),
+    organizationUnitRoleSources(apiClient, userId),
+  ]);
+  const grantedByRole = await Promise.all(roles.map(async (role) => ({
+    role: role.name,
+    organizationUnits: organizationUnitRoles[role.name] || [],
+    granted: new Set((await apiClient.getPermissions('R', role.name)).filter(p => p.isGranted).map(p => p.name)),
+  })));
+
+  return permissions.map((permission) => permission.isGranted
+    ? {
+      ...permission,
+      sources: grantedByRole
+        .filter(({ granted }) => granted.has(permission.name))
+        .map(({ role, organizationUnits }) => ({ role, organizationUnits })),
+    }
+    : permission
+  );
+}
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { z } from 'zod';
+import { AbpApiClient } from '../abp-api-client.js';
+import { findRole, getRoleDetails } from '../roles.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planUpdate } from './dry-run.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
+
+const roleLookupSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().optional(),
+}).refine((args) => args.id || args.name, { message: 'Either id or name is required' });
+
+const updateRoleSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).optional(),
+  isDefault: z.boolean().optional(),
+  isPublic: z.boolean().optional(),
+});
+
+export function roleTools(apiClient: AbpApiClient): ToolHandlers {
+  return {
+    abp_get_roles: {
+      name: 'abp_get_roles',
+      description: 'Get ABP Identity roles with optional filtering, paging and sorting, including their default, static and public flags',
+      category: 'role',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          filter: {
+            type: 'string',
+            description: 'Filter roles by name (optional)',
+          },
+          ...pagingProperties,
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const request = pagingSchema.extend({ filter: z.string().optional() }).parse(args);
+        const { items: roles, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getRoles(r), request);
+        return {
+          success: true,
+          data: roles,
+          count: roles.length,
+          totalCount,
+          paging,
+          default: roles.filter(r => r.isDefault).map(r => r.name),
+          static: roles.filter(r => r.isStatic).map(r => r.name),
+          public: roles.filter(r => r.isPublic).length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_get_role: {
+      name: 'abp_get_role',
+      description: 'Get an ABP role by ID or name, with the number of users in the role and its granted permissions',
+      category: 'role',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'The role ID',
+          },
+          name: {
+            type: 'string',
+            description: 'The role name, used when no ID is given',
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const role = await findRole(apiClient, roleLookupSchema.parse(args));
+        const { userCount, grantedPermissions } = await getRoleDetails(apiClient, role);
+
+        return {
+          success: true,
+          data: role,
+          userCount,
+          grantedPermissions,
+          grantedPermissionCount: grantedPermissions.length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_create_role: {
+      name: 'abp_create_role',
+      description: 'Create a new ABP role',
+      category: 'role',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: {
+            type: 'string',
+            description: 'The role name',
+          },
+          isDefault: {
+            type: 'boolean',
+            description: 'Assign the role to new users automatically',
+            default: false,
+          },
+          isPublic: {
+            type: 'boolean',
+            description: 'Make the role visible to other users',
+            default: false,
+          },
+        },
+        required: ['name'],
+      },
+      execute: async (args) => {
+        const role = await apiClient.createRole(z.object({
+          name: z.string().min(1),
+          isDefault: z.boolean().default(false),
+          isPublic: z.boolean().default(false),
+        }).parse(args));
+        return {
+          success: true,
+          data: role,
+          message: `Role '${role.name}' created successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { name, isDefault = false, isPublic = false } = args;
+        return planCreate(`role '${name}'`, { name, isDefault, isPublic });
+      },
+    } as ToolHandler,
+
+    abp_update_role: {
+      name: 'abp_update_role',
+      description: 'Rename an ABP role or change its default and public flags',
+      category: 'role',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'The role ID',
+          },
+          name: {
+            type: 'string',
+            description: 'The new role name (static roles cannot be renamed)',
+          },
+          isDefault: {
+            type: 'boolean',
+            description: 'Assign the role to new users automatically',
+          },
+          isPublic: {
+            type: 'boolean',
+            description: 'Make the role visible to other users',
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id, ...updateData } = updateRoleSchema.parse(args);
+        // Unchanged fields and the concurrency stamp come from the current role
+        const current = await apiClient.getRole(id);
+        const role = await apiClient.updateRole(id, {
+          name: updateData.name ?? current.name,
+          isDefault: updateData.isDefault ?? current.isDefault,
+          isPublic: updateData.isPublic ?? current.isPublic,
+          concurrencyStamp: current.concurrencyStamp,
+        });
+        return {
+          success: true,
+          data: role,
+          message: `Role '${role.name}' updated successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { id, ...updateData } = updateRoleSchema.parse(args);
+        const plan = await planUpdate(`role ${id}`, () => apiClient.getRole(id), updateData);
+        if (plan.before?.isStatic && updateData.name && updateData.name !== plan.before.name) {
+          plan.warnings = [...(plan.warnings || []), `'${plan.before.name}' is a static role; ABP will reject the rename`];
+        }
+        return plan;
+      },
+    } as ToolHandler,
+
+    abp_delete_role: {
+      name: 'abp_delete_role',
+      description: 'Delete an ABP role; its users lose the role and its permissions',
+      category: 'role',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'The role ID',
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        await apiClient.deleteRole(id);
+        return {
+          success: true,
+          message: `Role deleted successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        const plan = await planDelete(`role ${id}`, () => apiClient.getRole(id));
+        const userCount = await apiClient.getRoleUserCount(id);
+        const warnings = [
+          ...(plan.before?.isStatic ? [`'${plan.before.name}' is a static role; ABP will reject the deletion`] : []),
+          ...(userCount > 0 ? [`${userCount} users will lose the role`] : []),
+        ];
+        return warnings.length > 0 ? { ...plan, warnings } : plan;
+      },
+    } as ToolHandler,
+  };
+}
\ No newline at end of file
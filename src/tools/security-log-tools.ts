@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { AbpApiClient, AbpSecurityLogRequest, MAX_PAGE_SIZE } from '../abp-api-client.js';
+import { matchesGlob } from '../config.js';
+import { DEFAULT_LOGIN_ANOMALY_OPTIONS, detectLoginAnomalies, FAILED_LOGIN_ACTIONS, LOGIN_SUCCEEDED } from '../login-anomalies.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
+
+export function securityLogTools(apiClient: AbpApiClient): ToolHandlers {
+  return {
+    abp_get_security_logs: {
+      name: 'abp_get_security_logs',
+      description: 'Get ABP Identity security logs (logins, failed logins, lockouts, logouts, password changes) with filters for user, action, client, IP and time range',
+      category: 'security',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          userName: {
+            type: 'string',
+            description: 'Filter by user name (optional)',
+          },
+          action: {
+            type: 'string',
+            description: 'Filter by action, e.g. "LoginSucceeded", "LoginInvalidUserNameOrPassword", "LoginLockedout", "Logout" (optional)',
+          },
+          clientId: {
+            type: 'string',
+            description: 'Filter by OAuth client ID (optional)',
+          },
+          clientIpAddress: {
+            type: 'string',
+            description: 'Filter by client IP address, globs allowed, e.g. "10.0.*" (optional; filtered by this server, so at most the first matching pages are searched)',
+          },
+          applicationName: {
+            type: 'string',
+            description: 'Filter by application name (optional)',
+          },
+          startTime: {
+            type: 'string',
+            description: 'Start of the time range (ISO 8601)',
+          },
+          endTime: {
+            type: 'string',
+            description: 'End of the time range (ISO 8601)',
+          },
+          ...pagingProperties,
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { clientIpAddress, ...request } = pagingSchema.extend({
+          userName: z.string().optional(),
+          action: z.string().optional(),
+          clientId: z.string().optional(),
+          clientIpAddress: z.string().optional(),
+          applicationName: z.string().optional(),
+          startTime: z.string().datetime({ offset: true }).optional(),
+          endTime: z.string().datetime({ offset: true }).optional(),
+        }).parse(args);
+
+        // ABP cannot filter by IP, so matching logs are collected from every page and paged here
+        const { items: logs, totalCount, paging } = clientIpAddress
+          ? await fetchByIp(apiClient, request, clientIpAddress)
+          : await fetchPaged(apiClient, (r) => apiClient.getSecurityLogs(r), request);
+
+        return {
+          success: true,
+          data: logs,
+          count: logs.length,
+          totalCount,
+          paging,
+          actions: countBy(logs, (log) => log.action),
+          uniqueUsers: new Set(logs.map(log => log.userName).filter(Boolean)).size,
+          uniqueIpAddresses: new Set(logs.map(log => log.clientIpAddress).filter(Boolean)).size,
+        };
+      },
+    } as ToolHandler,
+
+    abp_get_login_anomalies: {
+      name: 'abp_get_login_anomalies',
+      description: 'Report suspicious logins from the ABP security logs: brute-force bursts of failed logins (per user and per IP), successful logins from IPs or user agents a user has not used before, and logins from different networks within minutes (impossible travel)',
+      category: 'security',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          hours: {
+            type: 'number',
+            description: 'Period to report on, in hours before now',
+            default: 24,
+          },
+          baselineDays: {
+            type: 'number',
+            description: 'Days before the period whose successful logins count as known IPs and user agents',
+            default: 30,
+          },
+          userName: {
+            type: 'string',
+            description: 'Only analyze this user (optional)',
+          },
+          failureThreshold: {
+            type: 'number',
+            description: 'Failed logins within the brute-force window that count as an attack',
+            default: DEFAULT_LOGIN_ANOMALY_OPTIONS.failureThreshold,
+          },
+          bruteForceWindowMinutes: {
+            type: 'number',
+            description: 'Brute-force window in minutes',
+            default: DEFAULT_LOGIN_ANOMALY_OPTIONS.bruteForceWindowMinutes,
+          },
+          travelWindowMinutes: {
+            type: 'number',
+            description: 'Logins of one user from different networks within this many minutes are flagged as impossible travel',
+            default: DEFAULT_LOGIN_ANOMALY_OPTIONS.travelWindowMinutes,
+          },
+        },
+        required: [],
+      },
+      execute: async (args) => {
+        const { hours, baselineDays, userName, ...thresholds } = z.object({
+          hours: z.number().positive().default(24),
+          baselineDays: z.number().min(0).default(30),
+          userName: z.string().optional(),
+          failureThreshold: z.number().int().min(2).default(DEFAULT_LOGIN_ANOMALY_OPTIONS.failureThreshold),
+          bruteForceWindowMinutes: z.number().positive().default(DEFAULT_LOGIN_ANOMALY_OPTIONS.bruteForceWindowMinutes),
+          travelWindowMinutes: z.number().positive().default(DEFAULT_LOGIN_ANOMALY_OPTIONS.travelWindowMinutes),
+        }).parse(args);
+
+        const endTime = new Date();
+        const since = new Date(endTime.getTime() - hours * 3_600_000);
+        const baselineStart = new Date(since.getTime() - baselineDays * 86_400_000);
+
+        // Only successful logins matter for the baseline, which keeps the larger time range small
+        const [recent, baseline] = await Promise.all([
+          apiClient.getAllPages((r) => apiClient.getSecurityLogs(r), {
+            userName,
+            startTime: since.toISOString(),
+            endTime: endTime.toISOString(),
+          }),
+          baselineDays > 0
+            ? apiClient.getAllPages((r) => apiClient.getSecurityLogs(r), {
+              userName,
+              action: LOGIN_SUCCEEDED,
+              startTime: baselineStart.toISOString(),
+              endTime: since.toISOString(),
+            })
+            : Promise.resolve({ items: [], totalCount: 0, pages: 0, truncated: false }),
+        ]);
+
+        const anomalies = detectLoginAnomalies([...baseline.items, ...recent.items], { since, ...thresholds });
+        return {
+          success: true,
+          data: anomalies,
+          count: anomalies.length,
+          byType: countBy(anomalies, (anomaly) => anomaly.type),
+          bySeverity: countBy(anomalies, (anomaly) => anomaly.severity),
+          period: {
+            startTime: since.toISOString(),
+            endTime: endTime.toISOString(),
+            baselineStartTime: baselineStart.toISOString(),
+          },
+          analyzed: {
+            events: recent.items.length,
+            failedLogins: recent.items.filter(log => FAILED_LOGIN_ACTIONS.includes(log.action || '')).length,
+            successfulLogins: recent.items.filter(log => log.action === LOGIN_SUCCEEDED).length,
+            baselineLogins: baseline.items.length,
+          },
+          warnings: recent.truncated || baseline.truncated
+            ? ['Not every security log was analyzed; narrow the period or pass userName']
+            : [],
+        };
+      },
+    } as ToolHandler,
+  };
+}
+
+// ABP pages with 10 items when no page size is given
+const DEFAULT_PAGE_SIZE = 10;
+
+async function fetchByIp(apiClient: AbpApiClient, request: AbpSecurityLogRequest & { all: boolean }, clientIpAddress: string) {
+  const { all, skipCount = 0, maxResultCount, ...filters } = request;
+  const result = await apiClient.getAllPages((r) => apiClient.getSecurityLogs(r), { ...filters, maxResultCount: MAX_PAGE_SIZE });
+  const matching = result.items.filter((log) => log.clientIpAddress && matchesGlob(log.clientIpAddress, clientIpAddress));
+  const items = all ? matching.slice(skipCount) : matching.slice(skipCount, skipCount + (maxResultCount || DEFAULT_PAGE_SIZE));
+
+  return {
+    items,
+    totalCount: matching.length,
+    paging: {
+      skipCount,
+      maxResultCount,
+      sorting: request.sorting,
+      hasMore: skipCount + items.length < matching.length,
+      truncated: result.truncated,
+    },
+  };
+}
+
+function countBy<T>(items: T[], keyOf: (item: T) => string | undefined): Record<string, number> {
+  return items.reduce((acc, item) => {
+    const key = keyOf(item) || 'unknown';
+    acc[key] = (acc[key] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+}
\ No newline at end of file
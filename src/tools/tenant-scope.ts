@@ -0,0 +1,57 @@
+import { AbpApiClient } from '../abp-api-client.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+
+const tenantProperty = {
+  type: 'string',
+  description: 'Tenant name or ID to run this call in; "host" or "" runs it as the host (optional, defaults to --default-tenant or the host)',
+};
+
+// undefined falls back to --default-tenant; "host" and "" mean the host, which withTenant takes as null
+function tenantArgument(tenant: unknown): string | null | undefined {
+  if (tenant === undefined || tenant === null) {
+    return undefined;
+  }
+  const value = String(tenant).trim();
+  return value === '' || value.toLowerCase() === 'host' ? null : value;
+}
+
+// Adds an optional `tenant` argument to each tool and runs its API calls inside that tenant
+export function tenantScoped(apiClient: AbpApiClient, handlers: ToolHandlers): ToolHandlers {
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => [
+      name,
+      {
+        ...handler,
+        inputSchema: {
+          ...handler.inputSchema,
+          properties: {
+            ...handler.inputSchema.properties,
+            tenant: tenantProperty,
+          },
+        },
+        execute: async (args) => {
+          const { tenant, ...toolArgs } = args || {};
+          return apiClient.withTenant(tenantArgument(tenant), () => handler.execute(toolArgs));
+        },
+        plan: handler.plan && (async (args) => {
+          const { tenant, ...toolArgs } = args || {};
+          return apiClient.withTenant(tenantArgument(tenant), () => handler.plan!(toolArgs));
+        }),
+      } as ToolHandler,
+    ])
+  );
+}
+
+// Runs each tool's API calls as the host, ignoring --default-tenant (e.g. SaaS tenant management)
+export function hostScoped(apiClient: AbpApiClient, handlers: ToolHandlers): ToolHandlers {
+  return Object.fromEntries(
+    Object.entries(handlers).map(([name, handler]) => [
+      name,
+      {
+        ...handler,
+        execute: async (args) => apiClient.withTenant(null, () => handler.execute(args)),
+        plan: handler.plan && (async (args) => apiClient.withTenant(null, () => handler.plan!(args))),
+      } as ToolHandler,
+    ])
+  );
+}
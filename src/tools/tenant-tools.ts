@@ -1,12 +1,19 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
+import { assertNoRedactedValues } from '../redaction.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planUpdate } from './dry-run.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
 
 export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_tenants: {
       name: 'abp_get_tenants',
-      description: 'Get all ABP tenants with optional filtering',
+      description: 'Get ABP tenants with optional filtering, paging and sorting',
+      category: 'tenant',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -14,16 +21,19 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'Filter tenants by name (optional)',
           },
+          ...pagingProperties,
         },
         required: [],
       },
       execute: async (args) => {
-        const { filter } = z.object({ filter: z.string().optional() }).parse(args);
-        const tenants = await apiClient.getTenants(filter);
+        const request = pagingSchema.extend({ filter: z.string().optional() }).parse(args);
+        const { items: tenants, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getTenants(r), request);
         return {
           success: true,
           data: tenants,
           count: tenants.length,
+          totalCount,
+          paging,
           active: tenants.filter(t => t.isActive).length,
           inactive: tenants.filter(t => !t.isActive).length,
         };
@@ -33,6 +43,10 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_tenant: {
       name: 'abp_get_tenant',
       description: 'Get a specific ABP tenant by ID',
+      category: 'tenant',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -56,6 +70,12 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
     abp_create_tenant: {
       name: 'abp_create_tenant',
       description: 'Create a new ABP tenant',
+      category: 'tenant',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -91,11 +111,26 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Tenant '${tenant.name}' created successfully`,
         };
       },
+      plan: async (args) => {
+        const existing = await apiClient.getTenants({ filter: args.name });
+        const duplicate = existing.items.find(t => t.name.toLowerCase() === String(args.name).toLowerCase());
+        return planCreate(
+          `tenant '${args.name}'`,
+          args,
+          duplicate ? [`A tenant named '${duplicate.name}' already exists (${duplicate.id})`] : undefined
+        );
+      },
     } as ToolHandler,
 
     abp_update_tenant: {
       name: 'abp_update_tenant',
       description: 'Update an existing ABP tenant',
+      category: 'tenant',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -128,6 +163,7 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
       },
       execute: async (args) => {
         const { id, ...updateData } = args;
+        assertNoRedactedValues(updateData, `tenant ${id}`);
         const tenant = await apiClient.updateTenant(id, updateData);
         return {
           success: true,
@@ -135,11 +171,23 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Tenant updated successfully`,
         };
       },
+      plan: async (args) => {
+        const { id, ...updateData } = args;
+        assertNoRedactedValues(updateData, `tenant ${id}`);
+        return planUpdate(`tenant ${id}`, () => apiClient.getTenant(id), updateData);
+      },
     } as ToolHandler,
 
     abp_delete_tenant: {
       name: 'abp_delete_tenant',
       description: 'Delete an ABP tenant',
+      category: 'tenant',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -158,6 +206,10 @@ export function tenantTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Tenant deleted successfully`,
         };
       },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planDelete(`tenant ${id}`, () => apiClient.getTenant(id));
+      },
     } as ToolHandler,
   };
 } 
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planExecute, planUpdate } from './dry-run.js';
 
 export function uiTools(apiClient: AbpApiClient): ToolHandlers {
   return {
@@ -8,6 +9,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_generate_page: {
       name: 'abp_generate_page',
       description: 'Generate specific pages (list, detail, create, edit, modal) for ABP applications',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -78,12 +85,17 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `${validatedArgs.type} page '${validatedArgs.name}' generated successfully`,
         };
       },
+      plan: async (args) => planExecute(`${args.type} page '${args.name}' (${args.framework})`, args),
     } as ToolHandler,
 
     // Theme Management Tools
     abp_get_themes: {
       name: 'abp_get_themes',
       description: 'Get all available ABP themes',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -102,6 +114,10 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_theme: {
       name: 'abp_get_theme',
       description: 'Get a specific ABP theme by name',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -125,6 +141,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_apply_theme: {
       name: 'abp_apply_theme',
       description: 'Apply and customize an ABP theme',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -164,12 +186,22 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Theme '${validatedArgs.name}' applied successfully`,
         };
       },
+      plan: async (args) => {
+        const { name, ...themeData } = args;
+        return planUpdate(`theme '${name}'`, () => apiClient.getTheme(name), themeData);
+      },
     } as ToolHandler,
 
     // Component Generation Tools
     abp_generate_component: {
       name: 'abp_generate_component',
       description: 'Generate reusable UI components (widgets, modals, partials, directives, pipes)',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -231,12 +263,17 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `${validatedArgs.type} component '${validatedArgs.name}' generated successfully`,
         };
       },
+      plan: async (args) => planExecute(`${args.type} component '${args.name}' (${args.framework})`, args),
     } as ToolHandler,
 
     // Layout Management Tools
     abp_get_layouts: {
       name: 'abp_get_layouts',
       description: 'Get all available ABP layouts',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -255,6 +292,10 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_layout: {
       name: 'abp_get_layout',
       description: 'Get a specific ABP layout by name',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -278,6 +319,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_update_layout: {
       name: 'abp_update_layout',
       description: 'Update an ABP layout configuration',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -317,12 +364,20 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Layout '${name}' updated successfully`,
         };
       },
+      plan: async (args) => {
+        const { name, ...updateData } = args;
+        return planUpdate(`layout '${name}'`, () => apiClient.getLayout(name), updateData);
+      },
     } as ToolHandler,
 
     // Menu Management Tools
     abp_get_menus: {
       name: 'abp_get_menus',
       description: 'Get all application menus',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -341,6 +396,10 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_menu: {
       name: 'abp_get_menu',
       description: 'Get a specific menu by name',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -364,6 +423,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_add_menu_item: {
       name: 'abp_add_menu_item',
       description: 'Add a menu item to an existing menu',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -428,11 +493,27 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Menu item '${itemData.displayName}' added to menu '${menuName}' successfully`,
         };
       },
+      plan: async (args) => {
+        const { menuName, ...itemData } = args;
+        const menu = await apiClient.getMenu(menuName);
+        const existing = menu.items?.find(item => item.name === itemData.name);
+        return planCreate(
+          `menu item '${itemData.name}' in menu '${menuName}'`,
+          itemData,
+          existing ? [`Menu '${menuName}' already has an item named '${itemData.name}'`] : undefined
+        );
+      },
     } as ToolHandler,
 
     abp_remove_menu_item: {
       name: 'abp_remove_menu_item',
       description: 'Remove a menu item from a menu',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -460,12 +541,31 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Menu item '${itemName}' removed from menu '${menuName}' successfully`,
         };
       },
+      plan: async (args) => {
+        const { menuName, itemName } = z.object({
+          menuName: z.string(),
+          itemName: z.string(),
+        }).parse(args);
+
+        return planDelete(`menu item '${itemName}' in menu '${menuName}'`, async () => {
+          const menu = await apiClient.getMenu(menuName);
+          const item = menu.items?.find(i => i.name === itemName);
+          if (!item) {
+            throw new Error(`Menu '${menuName}' has no item named '${itemName}'`);
+          }
+          return item;
+        });
+      },
     } as ToolHandler,
 
     // Widget Management Tools
     abp_get_widgets: {
       name: 'abp_get_widgets',
       description: 'Get all dashboard widgets',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -484,6 +584,10 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_widget: {
       name: 'abp_get_widget',
       description: 'Get a specific widget by name',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -507,6 +611,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_create_widget: {
       name: 'abp_create_widget',
       description: 'Create a new dashboard widget',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -563,11 +673,18 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Widget '${validatedArgs.displayName}' created successfully`,
         };
       },
+      plan: async (args) => planCreate(`widget '${args.name}'`, args),
     } as ToolHandler,
 
     abp_update_widget: {
       name: 'abp_update_widget',
       description: 'Update an existing widget',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -618,11 +735,21 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Widget '${name}' updated successfully`,
         };
       },
+      plan: async (args) => {
+        const { name, ...updateData } = args;
+        return planUpdate(`widget '${name}'`, () => apiClient.getWidget(name), updateData);
+      },
     } as ToolHandler,
 
     abp_delete_widget: {
       name: 'abp_delete_widget',
       description: 'Delete a widget',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -642,12 +769,22 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Widget '${name}' deleted successfully`,
         };
       },
+      plan: async (args) => {
+        const { name } = z.object({ name: z.string() }).parse(args);
+        return planDelete(`widget '${name}'`, () => apiClient.getWidget(name));
+      },
     } as ToolHandler,
 
     // Form Generation Tools
     abp_generate_form: {
       name: 'abp_generate_form',
       description: 'Generate complex forms with validation',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -751,12 +888,17 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Form '${validatedArgs.name}' generated successfully with ${validatedArgs.fields.length} fields`,
         };
       },
+      plan: async (args) => planExecute(`form '${args.name}'`, args),
     } as ToolHandler,
 
     // Localization Tools
     abp_get_localization_resources: {
       name: 'abp_get_localization_resources',
       description: 'Get all localization resources',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -775,6 +917,10 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_get_localization_resource: {
       name: 'abp_get_localization_resource',
       description: 'Get a specific localization resource, optionally for a specific culture',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -808,6 +954,12 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
     abp_update_localization_text: {
       name: 'abp_update_localization_text',
       description: 'Update or add localization text for a specific key and culture',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -847,11 +999,28 @@ export function uiTools(apiClient: AbpApiClient): ToolHandlers {
           message: `Localization text for key '${data.key}' updated in culture '${data.culture}'`,
         };
       },
+      plan: async (args) => {
+        const { resourceName, culture, key, value } = z.object({
+          resourceName: z.string(),
+          culture: z.string(),
+          key: z.string(),
+          value: z.string(),
+        }).parse(args);
+
+        return planUpdate(`localization text '${key}' of '${resourceName}' (${culture})`, async () => {
+          const resource: any = await apiClient.getLocalizationResource(resourceName, culture);
+          return { key, value: resource?.texts?.[key] ?? (resource?.key === key ? resource.value : undefined) };
+        }, { key, value });
+      },
     } as ToolHandler,
 
     abp_get_supported_cultures: {
       name: 'abp_get_supported_cultures',
       description: 'Get all supported cultures/languages',
+      category: 'ui',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {},
@@ -0,0 +1,379 @@
+import { z } from 'zod';
+import { AbpApiClient, AbpUser, AbpUserClaim, AbpUserUpdate } from '../abp-api-client.js';
+import { userRoleSources } from '../organization-units.js';
+import { ToolHandler, ToolHandlers } from './index.js';
+import { planUpdate } from './dry-run.js';
+
+const idProperty = {
+  type: 'string',
+  description: 'The user ID',
+};
+
+const lockUserSchema = z.object({
+  id: z.string(),
+  durationMinutes: z.number().int().min(1).optional(),
+  until: z.string().datetime({ offset: true }).optional(),
+}).refine((args) => !!args.durationMinutes !== !!args.until, { message: 'Pass either durationMinutes or until' });
+
+const claimSchema = z.object({
+  claimType: z.string().min(1),
+  claimValue: z.string(),
+});
+
+const setClaimsSchema = z.object({
+  id: z.string(),
+  claims: z.array(claimSchema),
+  mode: z.enum(['add', 'remove', 'replace']).default('add'),
+});
+
+export function userAccountTools(apiClient: AbpApiClient): ToolHandlers {
+  // The claim list ABP should store after applying the requested change
+  const resultingClaims = async ({ id, claims, mode }: z.infer<typeof setClaimsSchema>) => {
+    const current = await apiClient.getUserClaims(id);
+    const key = (claim: AbpUserClaim) => `${claim.claimType}\n${claim.claimValue}`;
+    const requested = new Set(claims.map(key));
+
+    const after = mode === 'replace'
+      ? claims
+      : mode === 'remove'
+        ? current.filter((claim) => !requested.has(key(claim)))
+        : [...current, ...claims.filter((claim) => !current.some((existing) => key(existing) === key(claim)))];
+    return { current, after };
+  };
+
+  return {
+    abp_lock_user: {
+      name: 'abp_lock_user',
+      description: 'Lock an ABP user out for a set time, either durationMinutes from now or until a given time',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          durationMinutes: {
+            type: 'number',
+            description: 'Lock the user for this many minutes from now',
+          },
+          until: {
+            type: 'string',
+            format: 'date-time',
+            description: 'Lock the user until this time (ISO 8601), instead of durationMinutes',
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id, durationMinutes, until } = lockUserSchema.parse(args);
+        const user = await apiClient.getUser(id);
+        if (user.lockoutEnabled === false) {
+          throw new Error(lockoutDisabledMessage(user));
+        }
+        const lockoutEnd = lockoutEndFrom(durationMinutes, until);
+        await apiClient.lockUser(id, lockoutEnd);
+        return {
+          success: true,
+          lockoutEnd,
+          message: `User locked until ${lockoutEnd}`,
+        };
+      },
+      plan: async (args) => {
+        const { id, durationMinutes, until } = lockUserSchema.parse(args);
+        const plan = await planUpdate(`user ${id}`, () => apiClient.getUser(id), { lockoutEnd: lockoutEndFrom(durationMinutes, until) });
+        return plan.before.lockoutEnabled === false
+          ? { ...plan, warnings: [...(plan.warnings || []), lockoutDisabledMessage(plan.before)] }
+          : plan;
+      },
+    } as ToolHandler,
+
+    abp_unlock_user: {
+      name: 'abp_unlock_user',
+      description: 'Unlock an ABP user that is locked out, either manually or after too many failed logins',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        await apiClient.unlockUser(id);
+        return {
+          success: true,
+          message: `User unlocked successfully`,
+        };
+      },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planUpdate(`user ${id}`, () => apiClient.getUser(id), { lockoutEnd: null, accessFailedCount: 0 });
+      },
+    } as ToolHandler,
+
+    abp_force_user_password_change: {
+      name: 'abp_force_user_password_change',
+      description: 'Require an ABP user to change their password at the next login, optionally setting a temporary password first',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          newPassword: {
+            type: 'string',
+            description: 'Temporary password to set (optional; the current password stays valid until the user changes it otherwise)',
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id, newPassword } = z.object({ id: z.string(), newPassword: z.string().min(1).optional() }).parse(args);
+        // ABP replaces the user with the update DTO, so every field it accepts is sent with its current value
+        const user = await apiClient.updateUser(id, {
+          ...toUserUpdate(await apiClient.getUser(id)),
+          shouldChangePasswordOnNextLogin: true,
+        });
+        // The flag is set first, so a failed password change never leaves a temporary password without it
+        if (newPassword) {
+          try {
+            await apiClient.changeUserPassword(id, newPassword);
+          } catch (error) {
+            throw new Error(
+              `User '${user.userName}' must change their password at the next login, but setting the temporary password failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+          }
+        }
+        return {
+          success: true,
+          data: user,
+          passwordReset: !!newPassword,
+          message: `User '${user.userName}' must change their password at the next login`,
+        };
+      },
+      plan: async (args) => {
+        const { id, newPassword } = z.object({ id: z.string(), newPassword: z.string().min(1).optional() }).parse(args);
+        const plan = await planUpdate(`user ${id}`, () => apiClient.getUser(id), { shouldChangePasswordOnNextLogin: true });
+        return newPassword
+          ? { ...plan, warnings: [...(plan.warnings || []), 'The password will be replaced by the given temporary password'] }
+          : plan;
+      },
+    } as ToolHandler,
+
+    abp_set_user_two_factor: {
+      name: 'abp_set_user_two_factor',
+      description: 'Turn two-factor authentication on or off for an ABP user',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          enabled: {
+            type: 'boolean',
+            description: 'true to require two-factor authentication, false to turn it off',
+          },
+        },
+        required: ['id', 'enabled'],
+      },
+      execute: async (args) => {
+        const { id, enabled } = z.object({ id: z.string(), enabled: z.boolean() }).parse(args);
+        await apiClient.setUserTwoFactorEnabled(id, enabled);
+        return {
+          success: true,
+          twoFactorEnabled: enabled,
+          message: `Two-factor authentication ${enabled ? 'enabled' : 'disabled'} for the user`,
+        };
+      },
+      plan: async (args) => {
+        const { id, enabled } = z.object({ id: z.string(), enabled: z.boolean() }).parse(args);
+        return planUpdate(
+          `user ${id}`,
+          async () => ({ twoFactorEnabled: await apiClient.getUserTwoFactorEnabled(id) }),
+          { twoFactorEnabled: enabled }
+        );
+      },
+    } as ToolHandler,
+
+    abp_get_user_claims: {
+      name: 'abp_get_user_claims',
+      description: 'Get the claims stored for an ABP user',
+      category: 'user',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        const claims = await apiClient.getUserClaims(id);
+        return {
+          success: true,
+          data: claims,
+          count: claims.length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_set_user_claims: {
+      name: 'abp_set_user_claims',
+      description: 'Add, remove or replace the claims of an ABP user',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          claims: {
+            type: 'array',
+            description: 'Claims to add, remove or set',
+            items: {
+              type: 'object',
+              properties: {
+                claimType: { type: 'string' },
+                claimValue: { type: 'string' },
+              },
+              required: ['claimType', 'claimValue'],
+            },
+          },
+          mode: {
+            type: 'string',
+            enum: ['add', 'remove', 'replace'],
+            description: '"add" keeps the existing claims, "remove" drops the given ones, "replace" stores exactly the given claims',
+            default: 'add',
+          },
+        },
+        required: ['id', 'claims'],
+      },
+      execute: async (args) => {
+        const request = setClaimsSchema.parse(args);
+        const { after } = await resultingClaims(request);
+        await apiClient.updateUserClaims(request.id, after);
+        return {
+          success: true,
+          data: after,
+          count: after.length,
+          message: `User claims updated successfully`,
+        };
+      },
+      plan: async (args) => {
+        const request = setClaimsSchema.parse(args);
+        const { current, after } = await resultingClaims(request);
+        return planUpdate(`claims of user ${request.id}`, async () => ({ claims: current }), { claims: after });
+      },
+    } as ToolHandler,
+
+    abp_get_user_organization_units: {
+      name: 'abp_get_user_organization_units',
+      description: 'List the organization units an ABP user belongs to',
+      category: 'user',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        const organizationUnits = await apiClient.getUserOrganizationUnits(id);
+        return {
+          success: true,
+          data: organizationUnits,
+          count: organizationUnits.length,
+        };
+      },
+    } as ToolHandler,
+
+    abp_get_user_roles: {
+      name: 'abp_get_user_roles',
+      description: 'Get the roles of an ABP user, including those held through organization units (listed with the granting units), or check whether the user has specific roles',
+      category: 'user',
+      annotations: {
+        readOnlyHint: true,
+      },
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: idProperty,
+          roleNames: {
+            type: 'array',
+            description: 'Role names to check (optional)',
+            items: {
+              type: 'string',
+            },
+          },
+        },
+        required: ['id'],
+      },
+      execute: async (args) => {
+        const { id, roleNames } = z.object({ id: z.string(), roleNames: z.array(z.string()).optional() }).parse(args);
+        const roles = await userRoleSources(apiClient, id);
+        const assigned = new Set(roles.map((role) => role.name.toLowerCase()));
+        return {
+          success: true,
+          data: roles,
+          roleNames: roles.map((role) => role.name),
+          hasRoles: roleNames
+            ? Object.fromEntries(roleNames.map((name) => [name, assigned.has(name.toLowerCase())]))
+            : undefined,
+        };
+      },
+    } as ToolHandler,
+  };
+}
+
+// roleNames is left out: ABP only replaces the roles when it is sent, and the listed roles include
+// the ones inherited from organization units
+function toUserUpdate(user: AbpUser): AbpUserUpdate {
+  return {
+    userName: user.userName,
+    name: user.name,
+    surname: user.surname,
+    email: user.email,
+    phoneNumber: user.phoneNumber,
+    isActive: user.isActive,
+    lockoutEnabled: user.lockoutEnabled ?? true,
+    shouldChangePasswordOnNextLogin: user.shouldChangePasswordOnNextLogin,
+    concurrencyStamp: user.concurrencyStamp,
+  };
+}
+
+function lockoutDisabledMessage(user: AbpUser): string {
+  return `Lockout is disabled for user '${user.userName}' (lockoutEnabled: false), so ABP would ignore the lock. Enable it first with abp_update_user and lockoutEnabled: true.`;
+}
+
+function lockoutEndFrom(durationMinutes?: number, until?: string): string {
+  return until
+    ? new Date(until).toISOString()
+    : new Date(Date.now() + durationMinutes! * 60_000).toISOString();
+}
\ No newline at end of file
@@ -1,12 +1,20 @@
 import { z } from 'zod';
 import { AbpApiClient } from '../abp-api-client.js';
+import { userRoleSources } from '../organization-units.js';
+import { assertNoRedactedValues } from '../redaction.js';
 import { ToolHandler, ToolHandlers } from './index.js';
+import { planCreate, planDelete, planUpdate } from './dry-run.js';
+import { fetchPaged, pagingProperties, pagingSchema } from './paging.js';
 
 export function userTools(apiClient: AbpApiClient): ToolHandlers {
   return {
     abp_get_users: {
       name: 'abp_get_users',
-      description: 'Get all ABP users with optional filtering',
+      description: 'Get ABP users with optional filtering, paging and sorting',
+      category: 'user',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -14,24 +22,22 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'Filter users by name, email, or username (optional)',
           },
-          maxResultCount: {
-            type: 'number',
-            description: 'Maximum number of users to return (optional)',
-          },
+          ...pagingProperties,
         },
         required: [],
       },
       execute: async (args) => {
-        const { filter, maxResultCount } = z.object({
+        const request = pagingSchema.extend({
           filter: z.string().optional(),
-          maxResultCount: z.number().optional(),
         }).parse(args);
         
-        const users = await apiClient.getUsers(filter, maxResultCount);
+        const { items: users, totalCount, paging } = await fetchPaged(apiClient, (r) => apiClient.getUsers(r), request);
         return {
           success: true,
           data: users,
           count: users.length,
+          totalCount,
+          paging,
           active: users.filter(u => u.isActive).length,
           inactive: users.filter(u => !u.isActive).length,
         };
@@ -40,7 +46,11 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
 
     abp_get_user: {
       name: 'abp_get_user',
-      description: 'Get a specific ABP user by ID',
+      description: 'Get a specific ABP user by ID, with the roles the user holds and whether each is assigned directly or through organization units',
+      category: 'user',
+      annotations: {
+        readOnlyHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -48,15 +58,32 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'string',
             description: 'The user ID',
           },
+          includeRoles: {
+            type: 'boolean',
+            description: 'Add the user\'s roles and the organization units they come from',
+            default: true,
+          },
         },
         required: ['id'],
       },
       execute: async (args) => {
-        const { id } = z.object({ id: z.string() }).parse(args);
-        const user = await apiClient.getUser(id);
+        const { id, includeRoles } = z.object({ id: z.string(), includeRoles: z.boolean().default(true) }).parse(args);
+        if (!includeRoles) {
+          return {
+            success: true,
+            data: await apiClient.getUser(id),
+          };
+        }
+
+        // Organization unit endpoints are missing from some ABP editions; the user is still returned without them
+        const [user, roles] = await Promise.all([
+          apiClient.getUser(id),
+          userRoleSources(apiClient, id).catch((error: unknown) => error instanceof Error ? error : new Error(String(error))),
+        ]);
         return {
           success: true,
-          data: user,
+          data: roles instanceof Error ? user : { ...user, roles },
+          warnings: roles instanceof Error ? [`Could not read the user's roles and organization units: ${roles.message}`] : [],
         };
       },
     } as ToolHandler,
@@ -64,6 +91,12 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
     abp_create_user: {
       name: 'abp_create_user',
       description: 'Create a new ABP user',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -114,11 +147,21 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
           message: `User '${user.userName}' created successfully`,
         };
       },
+      plan: async (args) => {
+        const { password, ...user } = args;
+        return planCreate(`user '${user.userName}'`, user);
+      },
     } as ToolHandler,
 
     abp_update_user: {
       name: 'abp_update_user',
       description: 'Update an existing ABP user',
+      category: 'user',
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -150,6 +193,10 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
             type: 'boolean',
             description: 'Whether the user is active',
           },
+          lockoutEnabled: {
+            type: 'boolean',
+            description: 'Whether the user can be locked out (required by abp_lock_user)',
+          },
           roleNames: {
             type: 'array',
             description: 'Array of role names to assign to the user',
@@ -162,6 +209,7 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
       },
       execute: async (args) => {
         const { id, ...updateData } = args;
+        assertNoRedactedValues(updateData, `user ${id}`);
         const user = await apiClient.updateUser(id, updateData);
         return {
           success: true,
@@ -169,11 +217,23 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
           message: `User updated successfully`,
         };
       },
+      plan: async (args) => {
+        const { id, ...updateData } = args;
+        assertNoRedactedValues(updateData, `user ${id}`);
+        return planUpdate(`user ${id}`, () => apiClient.getUser(id), updateData);
+      },
     } as ToolHandler,
 
     abp_delete_user: {
       name: 'abp_delete_user',
       description: 'Delete an ABP user',
+      category: 'user',
+      requiresConfirmation: true,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+      },
       inputSchema: {
         type: 'object',
         properties: {
@@ -192,6 +252,10 @@ export function userTools(apiClient: AbpApiClient): ToolHandlers {
           message: `User deleted successfully`,
         };
       },
+      plan: async (args) => {
+        const { id } = z.object({ id: z.string() }).parse(args);
+        return planDelete(`user ${id}`, () => apiClient.getUser(id));
+      },
     } as ToolHandler,
   };
 } 
\ No newline at end of file